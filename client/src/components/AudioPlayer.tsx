@@ -1,98 +1,145 @@
 import { useState, useRef, useEffect } from "react";
+import { skipToken } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Play, Pause, Volume2, Loader2 } from "lucide-react";
+import { Square, SkipForward, Volume2, Loader2 } from "lucide-react";
 import { trpc } from "@/lib/trpc";
+import { AudioQueue } from "@/lib/audioQueue";
 import { toast } from "sonner";
 
 interface AudioPlayerProps {
   text: string;
   messageId?: number;
+  /** Previously generated speech; replayed without synthesizing again */
+  audioUrl?: string | null;
 }
 
-export function AudioPlayer({ text, messageId }: AudioPlayerProps) {
+function base64ToArrayBuffer(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+export function AudioPlayer({ text, messageId, audioUrl }: AudioPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  // Set while sentences are being synthesized and streamed
+  const [speechInput, setSpeechInput] = useState<{ text: string; messageId?: number } | null>(null);
+  const queueRef = useRef<AudioQueue | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const receivedSentenceRef = useRef(false);
+  const utils = trpc.useUtils();
 
-  const generateSpeechMutation = trpc.voice.generateSpeech.useMutation({
-    onSuccess: (data) => {
-      setAudioUrl(data.audioUrl);
-      setIsLoading(false);
-      // Auto-play after generation
-      playAudio(data.audioUrl);
-    },
-    onError: (error) => {
-      toast.error("Failed to generate speech: " + error.message);
-      setIsLoading(false);
-    },
-  });
-
-  const playAudio = (url: string) => {
-    if (audioRef.current) {
-      audioRef.current.pause();
-    }
+  const finishPlayback = () => {
+    setIsPlaying(false);
+    setIsLoading(false);
+    setSpeechInput(null);
+  };
 
+  const playSaved = (url: string) => {
     const audio = new Audio(url);
     audioRef.current = audio;
-
-    audio.onplay = () => setIsPlaying(true);
-    audio.onpause = () => setIsPlaying(false);
-    audio.onended = () => {
-      setIsPlaying(false);
-      audioRef.current = null;
-    };
+    audio.onended = finishPlayback;
     audio.onerror = () => {
       toast.error("Failed to play audio");
-      setIsPlaying(false);
-      audioRef.current = null;
+      finishPlayback();
     };
+    audio.play().catch(() => finishPlayback());
+    setIsLoading(false);
+    setIsPlaying(true);
+  };
 
-    audio.play().catch((error) => {
-      console.error("Audio playback error:", error);
-      toast.error("Failed to play audio");
-      setIsPlaying(false);
-    });
+  // Each sentence plays as soon as it arrives, while later ones are still being synthesized
+  trpc.voice.streamSpeech.useSubscription(speechInput ?? skipToken, {
+    onData: (event) => {
+      if (event.type === "budget_warning") {
+        toast.warning(event.message);
+        return;
+      }
+      if (event.type === "sentence") {
+        receivedSentenceRef.current = true;
+        queueRef.current?.enqueue(event.index, base64ToArrayBuffer(event.audio));
+        setIsLoading(false);
+        setIsPlaying(true);
+        return;
+      }
+      // Already synthesized earlier: play the stored copy instead
+      if (!receivedSentenceRef.current) playSaved(event.audioUrl);
+      if (messageId) utils.messages.list.invalidate();
+    },
+    onComplete: () => {
+      queueRef.current?.end();
+    },
+    onError: (error) => {
+      toast.error("Failed to generate speech: " + error.message);
+      queueRef.current?.stop();
+      finishPlayback();
+    },
+  });
+
+  const stopPlayback = () => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+    queueRef.current?.stop();
+    finishPlayback();
   };
 
-  const handlePlayPause = () => {
-    if (isPlaying && audioRef.current) {
-      audioRef.current.pause();
-      setIsPlaying(false);
-    } else if (audioUrl) {
-      playAudio(audioUrl);
-    } else {
-      // Generate TTS
-      setIsLoading(true);
-      generateSpeechMutation.mutate({ text });
+  const handlePlayStop = () => {
+    if (isPlaying || isLoading) {
+      stopPlayback();
+      return;
+    }
+
+    if (audioUrl) {
+      playSaved(audioUrl);
+      return;
     }
+
+    if (!queueRef.current) {
+      queueRef.current = new AudioQueue();
+      queueRef.current.onEnded = finishPlayback;
+    }
+    receivedSentenceRef.current = false;
+    setIsLoading(true);
+    setSpeechInput({ text, messageId });
   };
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current = null;
-      }
+      audioRef.current?.pause();
+      queueRef.current?.close();
+      queueRef.current = null;
     };
   }, []);
 
   return (
-    <Button
-      variant="ghost"
-      size="icon"
-      onClick={handlePlayPause}
-      disabled={isLoading}
-      className="h-8 w-8"
-    >
-      {isLoading ? (
-        <Loader2 className="h-4 w-4 animate-spin" />
-      ) : isPlaying ? (
-        <Pause className="h-4 w-4" />
-      ) : (
-        <Volume2 className="h-4 w-4" />
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handlePlayStop}
+        className="h-8 w-8"
+      >
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : isPlaying ? (
+          <Square className="h-4 w-4" />
+        ) : (
+          <Volume2 className="h-4 w-4" />
+        )}
+      </Button>
+      {isPlaying && !audioRef.current && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => queueRef.current?.skip()}
+          className="h-8 w-8"
+          title="Skip sentence"
+        >
+          <SkipForward className="h-4 w-4" />
+        </Button>
       )}
-    </Button>
+    </div>
   );
 }
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+
+type Period = "daily" | "monthly";
+type Metric = "tokens" | "audioMinutes" | "dollars";
+
+// Usage is recorded under these ids: chat providers, then speech-to-text and text-to-speech
+const BUDGET_PROVIDERS = [
+  { id: "openai", name: "OpenAI (built-in)" },
+  { id: "openrouter", name: "OpenRouter" },
+  { id: "mistral", name: "Mistral AI" },
+  { id: "anthropic", name: "Anthropic Claude" },
+  { id: "openai-compatible", name: "OpenAI-Compatible" },
+  { id: "whisper", name: "Whisper" },
+  { id: "deepgram", name: "Deepgram" },
+  { id: "elevenlabs", name: "ElevenLabs" },
+  { id: "hume", name: "Hume AI" },
+  { id: "azure", name: "Azure Speech" },
+  { id: "piper", name: "Piper" },
+];
+
+/** A budget amount in its unit; dollar budgets are stored in cents */
+function formatAmount(metric: Metric, value: number): string {
+  switch (metric) {
+    case "tokens":
+      return `${Math.round(value).toLocaleString()} tokens`;
+    case "audioMinutes":
+      return `${value.toFixed(1)} min`;
+    case "dollars":
+      return `$${(value / 100).toFixed(2)}`;
+  }
+}
+
+/**
+ * Daily or monthly limits on tokens, audio minutes or estimated spend, overall
+ * or per provider. Requests are refused once one is used up.
+ */
+export function BudgetEditor() {
+  const utils = trpc.useUtils();
+  const { data: budgets = [] } = trpc.budgets.list.useQuery();
+  const [draft, setDraft] = useState({
+    provider: "all",
+    period: "monthly" as Period,
+    metric: "dollars" as Metric,
+    amount: "",
+  });
+
+  const createMutation = trpc.budgets.create.useMutation({
+    onSuccess: () => {
+      utils.budgets.list.invalidate();
+      setDraft({ ...draft, amount: "" });
+      toast.success("Budget added!");
+    },
+    onError: (error) => {
+      toast.error("Failed to add budget: " + error.message);
+    },
+  });
+
+  const deleteMutation = trpc.budgets.delete.useMutation({
+    onSuccess: () => {
+      utils.budgets.list.invalidate();
+    },
+  });
+
+  const handleAdd = () => {
+    const amount = Number(draft.amount);
+    if (!(amount > 0)) {
+      toast.error("Enter a limit above zero");
+      return;
+    }
+    createMutation.mutate({
+      provider: draft.provider === "all" ? null : draft.provider,
+      period: draft.period,
+      metric: draft.metric,
+      amount: Math.round(draft.metric === "dollars" ? amount * 100 : amount),
+    });
+  };
+
+  const providerName = (id: string | null) =>
+    id ? BUDGET_PROVIDERS.find((p) => p.id === id)?.name ?? id : "All providers";
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle>Budgets</CardTitle>
+        <CardDescription>
+          Limit usage per day or month. You're warned at 80% and requests stop at 100%.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {budgets.length > 0 && (
+          <div className="space-y-2">
+            {budgets.map((budget) => (
+              <div key={budget.id} className="flex items-center gap-3 p-3 rounded-lg border border-border">
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">
+                      {providerName(budget.provider)} · <span className="capitalize">{budget.period}</span>
+                    </span>
+                    <span className={budget.ratio >= 1 ? "text-destructive" : "text-muted-foreground"}>
+                      {formatAmount(budget.metric, budget.used)} of {formatAmount(budget.metric, budget.amount)}
+                    </span>
+                  </div>
+                  <Progress value={Math.min(100, budget.ratio * 100)} />
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate({ id: budget.id })}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={draft.provider} onValueChange={(provider) => setDraft({ ...draft, provider })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All providers</SelectItem>
+                {BUDGET_PROVIDERS.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Period</Label>
+            <Select value={draft.period} onValueChange={(period) => setDraft({ ...draft, period: period as Period })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Limit On</Label>
+            <Select value={draft.metric} onValueChange={(metric) => setDraft({ ...draft, metric: metric as Metric })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dollars">Estimated cost ($)</SelectItem>
+                <SelectItem value="tokens">Tokens</SelectItem>
+                <SelectItem value="audioMinutes">Audio minutes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="budget-amount">Limit</Label>
+            <Input
+              id="budget-amount"
+              type="number"
+              min="0"
+              step={draft.metric === "dollars" ? "0.01" : "1"}
+              value={draft.amount}
+              onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+              placeholder={draft.metric === "dollars" ? "10.00" : draft.metric === "tokens" ? "500000" : "60"}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Costs are estimated from the model prices providers publish; models without prices count as free.
+        </p>
+
+        <Button onClick={handleAdd} disabled={createMutation.isPending}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Budget
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
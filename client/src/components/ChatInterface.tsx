@@ -1,32 +1,55 @@
 import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, Bot, User, Phone } from "lucide-react";
+import { Send, Bot, User, Phone, Pencil, GitBranch } from "lucide-react";
 import { VoiceRecorder } from "./VoiceRecorder";
 import { AudioPlayer } from "./AudioPlayer";
+import { stripToneTags } from "@shared/tone";
 import { ConversationSettings } from "./ConversationSettings";
 import { ExportConversation } from "./ExportConversation";
 import { VoiceCallMode } from "./VoiceCallMode";
+import { ToolActivity } from "./ToolActivity";
+import { VersionSwitcher } from "./VersionSwitcher";
+import { RegenerateMenu } from "./RegenerateMenu";
 import { trpc } from "@/lib/trpc";
 import { Streamdown } from "streamdown";
 import { toast } from "sonner";
+import { skipToken } from "@tanstack/react-query";
 
-interface Message {
-  id: number;
-  role: "user" | "assistant" | "system";
-  content: string;
-  createdAt: Date;
+interface ChatTurnRequest {
+  message?: string;
+  editMessageId?: number;
+  regenerateMessageId?: number;
+  override?: { provider: string; model: string };
 }
 
 interface ChatInterfaceProps {
   conversationId: number;
+  /** Called with the new conversation after forking */
+  onConversationSelect?: (id: number) => void;
+  /** Message to scroll to, e.g. a search result */
+  focusMessageId?: number | null;
+  onFocusHandled?: () => void;
 }
 
-export function ChatInterface({ conversationId }: ChatInterfaceProps) {
+export function ChatInterface({
+  conversationId,
+  onConversationSelect,
+  focusMessageId,
+  onFocusHandled,
+}: ChatInterfaceProps) {
   const [inputValue, setInputValue] = useState("");
-  const [isTyping, setIsTyping] = useState(false);
+  const [streamInput, setStreamInput] = useState<ChatTurnRequest | null>(null);
+  // While an edit or regenerate streams, the old branch is hidden from this message on
+  const [branchFromId, setBranchFromId] = useState<number | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editValue, setEditValue] = useState("");
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [streamingContent, setStreamingContent] = useState("");
   const [showVoiceCall, setShowVoiceCall] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<number | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const utils = trpc.useUtils();
 
@@ -35,38 +58,131 @@ export function ChatInterface({ conversationId }: ChatInterfaceProps) {
     { refetchInterval: false }
   );
 
-  const sendMessageMutation = trpc.chat.send.useMutation({
-    onMutate: async () => {
-      setIsTyping(true);
-    },
-    onSuccess: () => {
-      utils.messages.list.invalidate({ conversationId });
-      setInputValue("");
-      setIsTyping(false);
+  const forkMutation = trpc.conversations.fork.useMutation({
+    onSuccess: (data) => {
+      utils.conversations.list.invalidate();
+      toast.success("Conversation forked!");
+      onConversationSelect?.(data.id);
     },
     onError: (error) => {
-      toast.error("Failed to send message: " + error.message);
-      setIsTyping(false);
+      toast.error("Failed to fork conversation: " + error.message);
     },
   });
 
+  const handleFork = (messageId: number) => {
+    forkMutation.mutate({ id: conversationId, messageId });
+  };
+
+  const isStreaming = streamInput !== null;
+  const isTyping = isStreaming && !streamingContent;
+
+  const branchIndex = branchFromId !== null ? messages.findIndex((m) => m.id === branchFromId) : -1;
+  const visibleMessages = branchIndex === -1 ? messages : messages.slice(0, branchIndex);
+
+  // Saved messages (user turn, tool calls and results) replace the local copies
+  const refreshMessages = async () => {
+    await utils.messages.list.invalidate({ conversationId });
+    setPendingMessage(null);
+    setStreamingContent("");
+    setBranchFromId(null);
+  };
+
+  const finishStreaming = async () => {
+    await refreshMessages();
+    setStreamInput(null);
+  };
+
+  trpc.chat.stream.useSubscription(
+    streamInput !== null ? { conversationId, ...streamInput } : skipToken,
+    {
+      onData: (event) => {
+        if (event.type === "delta") {
+          setStreamingContent((prev) => prev + event.content);
+        } else if (event.type === "tool_call" || event.type === "tool_result") {
+          refreshMessages();
+        } else if (event.type === "budget_warning") {
+          toast.warning(event.message);
+        } else {
+          finishStreaming();
+        }
+      },
+      onError: (error) => {
+        toast.error("Failed to send message: " + error.message);
+        finishStreaming();
+      },
+    }
+  );
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages, isTyping]);
+  }, [messages, pendingMessage, streamingContent]);
 
-  const handleSendMessage = async () => {
-    if (!inputValue.trim() || sendMessageMutation.isPending) return;
+  // Scroll to a message picked from search, switching to its branch if it's on another one
+  const switchToMessage = trpc.messages.switchVersion.useMutation({
+    onSuccess: () => utils.messages.list.invalidate({ conversationId }),
+  });
+  const switchedFor = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!focusMessageId || isLoading || switchToMessage.isPending) return;
+
+    if (messages.some((m) => m.id === focusMessageId)) {
+      document.getElementById(`message-${focusMessageId}`)?.scrollIntoView({ block: "center" });
+      setHighlightedId(focusMessageId);
+      onFocusHandled?.();
+    } else if (switchedFor.current !== focusMessageId) {
+      switchedFor.current = focusMessageId;
+      switchToMessage.mutate({ messageId: focusMessageId });
+    } else {
+      onFocusHandled?.();
+    }
+  }, [focusMessageId, messages, isLoading, switchToMessage.isPending]);
+
+  useEffect(() => {
+    if (highlightedId === null) return;
+    const timer = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  const handleSendMessage = () => {
+    if (!inputValue.trim() || isStreaming) return;
 
     const message = inputValue.trim();
     setInputValue("");
+    setStreamingContent("");
+    setPendingMessage(message);
+    setStreamInput({ message });
+  };
+
+  const startEditing = (messageId: number, content: string) => {
+    setEditingId(messageId);
+    setEditValue(content);
+  };
+
+  // Send the edited text as a new version of the message and answer it again
+  const handleSaveEdit = (messageId: number) => {
+    const message = editValue.trim();
+    if (!message || isStreaming) return;
 
-    await sendMessageMutation.mutateAsync({
-      conversationId,
-      message,
-    });
+    setEditingId(null);
+    setStreamingContent("");
+    setBranchFromId(messageId);
+    setPendingMessage(message);
+    setStreamInput({ message, editMessageId: messageId });
+  };
+
+  const handleRegenerate = (messageId: number, override?: { provider: string; model: string }) => {
+    if (isStreaming) return;
+
+    // The new reply replaces everything after the prompt, including tool calls
+    const index = messages.findIndex((m) => m.id === messageId);
+    const promptIndex = messages.slice(0, index).map((m) => m.role).lastIndexOf("user");
+    setStreamingContent("");
+    setBranchFromId(messages[promptIndex + 1]?.id ?? messageId);
+    setStreamInput({ regenerateMessageId: messageId, override });
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -111,7 +227,7 @@ export function ChatInterface({ conversationId }: ChatInterfaceProps) {
             <div className="flex items-center justify-center py-8">
               <div className="text-muted-foreground">Loading messages...</div>
             </div>
-          ) : messages.length === 0 ? (
+          ) : visibleMessages.length === 0 && pendingMessage === null ? (
             <div className="flex flex-col items-center justify-center py-12 text-center">
               <Bot className="h-16 w-16 text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2">Start a conversation</h3>
@@ -120,12 +236,28 @@ export function ChatInterface({ conversationId }: ChatInterfaceProps) {
               </p>
             </div>
           ) : (
-            messages.map((message) => (
+            visibleMessages.map((message) =>
+              message.role === "tool" || message.toolCalls?.length ? (
+                <div
+                  key={message.id}
+                  id={`message-${message.id}`}
+                  className={highlightedId === message.id ? "rounded-lg ring-2 ring-primary" : ""}
+                >
+                  <ToolActivity message={message} />
+                  <VersionSwitcher
+                    conversationId={conversationId}
+                    messageId={message.id}
+                    siblingIds={message.siblingIds}
+                    disabled={isStreaming}
+                  />
+                </div>
+              ) : (
               <div
                 key={message.id}
+                id={`message-${message.id}`}
                 className={`flex gap-3 message-enter ${
                   message.role === "user" ? "justify-end" : "justify-start"
-                }`}
+                } ${highlightedId === message.id ? "rounded-lg ring-2 ring-primary" : ""}`}
               >
                 {message.role === "assistant" && (
                   <div className="flex-shrink-0">
@@ -135,7 +267,29 @@ export function ChatInterface({ conversationId }: ChatInterfaceProps) {
                   </div>
                 )}
                 
-                <div className="flex flex-col gap-2">
+                <div className={`flex flex-col gap-2 ${message.role === "user" ? "items-end" : ""}`}>
+                  {editingId === message.id ? (
+                    <div className="w-full min-w-[20rem] space-y-2">
+                      <Textarea
+                        value={editValue}
+                        onChange={(e) => setEditValue(e.target.value)}
+                        rows={3}
+                        autoFocus
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => handleSaveEdit(message.id)}
+                          disabled={!editValue.trim() || isStreaming}
+                        >
+                          Save & Send
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
                   <div
                     className={`max-w-[80%] rounded-lg px-4 py-3 ${
                       message.role === "user"
@@ -144,14 +298,56 @@ export function ChatInterface({ conversationId }: ChatInterfaceProps) {
                     }`}
                   >
                     {message.role === "assistant" ? (
-                      <Streamdown>{message.content}</Streamdown>
+                      <Streamdown>{stripToneTags(message.content)}</Streamdown>
                     ) : (
                       <p className="whitespace-pre-wrap">{message.content}</p>
                     )}
                   </div>
+                  )}
                   {message.role === "assistant" && (
                     <div className="flex items-center gap-1">
-                      <AudioPlayer text={message.content} messageId={message.id} />
+                      <AudioPlayer text={message.content} messageId={message.id} audioUrl={message.audioUrl} />
+                      <RegenerateMenu
+                        onRegenerate={(override) => handleRegenerate(message.id, override)}
+                        disabled={isStreaming}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleFork(message.id)}
+                        disabled={isStreaming || forkMutation.isPending}
+                        aria-label="Fork from here"
+                        title="Fork from here"
+                      >
+                        <GitBranch className="h-4 w-4" />
+                      </Button>
+                      <VersionSwitcher
+                        conversationId={conversationId}
+                        messageId={message.id}
+                        siblingIds={message.siblingIds}
+                        disabled={isStreaming}
+                      />
+                    </div>
+                  )}
+                  {message.role === "user" && editingId !== message.id && (
+                    <div className="flex items-center gap-1">
+                      <VersionSwitcher
+                        conversationId={conversationId}
+                        messageId={message.id}
+                        siblingIds={message.siblingIds}
+                        disabled={isStreaming}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => startEditing(message.id, message.content)}
+                        disabled={isStreaming}
+                        aria-label="Edit message"
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
                     </div>
                   )}
                 </div>
@@ -164,7 +360,36 @@ export function ChatInterface({ conversationId }: ChatInterfaceProps) {
                   </div>
                 )}
               </div>
-            ))
+              )
+            )
+          )}
+
+          {/* Message being sent, shown until the saved copy is refetched */}
+          {pendingMessage !== null && (
+            <div className="flex gap-3 message-enter justify-end">
+              <div className="max-w-[80%] rounded-lg px-4 py-3 bg-primary text-primary-foreground">
+                <p className="whitespace-pre-wrap">{pendingMessage}</p>
+              </div>
+              <div className="flex-shrink-0">
+                <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center">
+                  <User className="h-5 w-5 text-secondary-foreground" />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Streaming assistant reply */}
+          {isStreaming && streamingContent && (
+            <div className="flex gap-3 message-enter justify-start">
+              <div className="flex-shrink-0">
+                <div className="w-8 h-8 rounded-full bg-primary flex items-center justify-center">
+                  <Bot className="h-5 w-5 text-primary-foreground" />
+                </div>
+              </div>
+              <div className="max-w-[80%] rounded-lg px-4 py-3 glass">
+                <Streamdown>{stripToneTags(streamingContent, { streaming: true })}</Streamdown>
+              </div>
+            </div>
           )}
 
           {/* Typing indicator */}
@@ -200,7 +425,7 @@ export function ChatInterface({ conversationId }: ChatInterfaceProps) {
         <div className="max-w-4xl mx-auto flex gap-2">
           <VoiceRecorder
             onTranscriptionComplete={handleTranscription}
-            isDisabled={sendMessageMutation.isPending}
+            isDisabled={isStreaming}
           />
           
           <Input
@@ -209,13 +434,13 @@ export function ChatInterface({ conversationId }: ChatInterfaceProps) {
             onKeyPress={handleKeyPress}
             placeholder="Type your message... (Ctrl+Enter to send)"
             onKeyDown={handleKeyDown}
-            disabled={sendMessageMutation.isPending}
+            disabled={isStreaming}
             className="flex-1"
           />
           
           <Button
             onClick={handleSendMessage}
-            disabled={!inputValue.trim() || sendMessageMutation.isPending}
+            disabled={!inputValue.trim() || isStreaming}
             size="icon"
           >
             <Send className="h-5 w-5" />
@@ -20,10 +20,37 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Settings, Save, X } from "lucide-react";
+import { Settings, Save, X, RefreshCw } from "lucide-react";
+import { FallbackChainEditor } from "@/components/FallbackChainEditor";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 
+interface ModelInfo {
+  id: string;
+  contextWindow?: number;
+  inputPrice?: number;
+  outputPrice?: number;
+  supportsVision?: boolean;
+  supportsTools?: boolean;
+}
+
+/**
+ * One-line summary of a catalog entry, e.g. "128k context · $2.50 / $10.00 per 1M tokens · tools"
+ */
+function describeModel(info: ModelInfo): string {
+  const parts: string[] = [];
+  if (info.contextWindow) {
+    parts.push(`${Math.round(info.contextWindow / 1000)}k context`);
+  }
+  if (info.inputPrice !== undefined && info.outputPrice !== undefined) {
+    const perMillion = (price: number) => `$${(price * 1_000_000).toFixed(2)}`;
+    parts.push(`${perMillion(info.inputPrice)} / ${perMillion(info.outputPrice)} per 1M tokens`);
+  }
+  if (info.supportsTools) parts.push("tools");
+  if (info.supportsVision) parts.push("vision");
+  return parts.join(" · ");
+}
+
 interface ConversationSettingsProps {
   conversationId: number;
 }
@@ -34,6 +61,7 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
 
   const { data: conversation } = trpc.conversations.get.useQuery({ id: conversationId });
   const { data: llmProviders = [], isLoading: isLoadingProviders } = trpc.chat.getProviders.useQuery();
+  const { data: providerKeys = [] } = trpc.providers.list.useQuery();
 
   const [provider, setProvider] = useState("openai");
   const [model, setModel] = useState("gpt-4");
@@ -41,6 +69,9 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
   const [useCustomModel, setUseCustomModel] = useState(false);
   const [temperature, setTemperature] = useState(70);
   const [systemPrompt, setSystemPrompt] = useState("");
+  const [fallbackProviders, setFallbackProviders] = useState<string[]>([]);
+  // "default" bills the provider's default key
+  const [providerConfigId, setProviderConfigId] = useState("default");
 
   useEffect(() => {
     if (conversation) {
@@ -50,7 +81,7 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
       
       // Check if current model is in the available models list
       const providerData = llmProviders.find((p) => p.id === (conversation.llmProvider || "openai"));
-      const isCustom = providerData && !providerData.models.includes(currentModel);
+      const isCustom = providerData && !providerData.models.some((m) => m.id === currentModel);
       
       if (isCustom) {
         setUseCustomModel(true);
@@ -62,6 +93,8 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
       
       setTemperature(conversation.temperature || 70);
       setSystemPrompt(conversation.systemPrompt || "");
+      setFallbackProviders(conversation.fallbackProviders ?? []);
+      setProviderConfigId(conversation.providerConfigId ? String(conversation.providerConfigId) : "default");
     }
   }, [conversation, llmProviders]);
 
@@ -76,6 +109,21 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
     },
   });
 
+  const [isRefreshingModels, setIsRefreshingModels] = useState(false);
+
+  // Bypass the server's model cache, e.g. right after adding a key
+  const handleRefreshModels = async () => {
+    setIsRefreshingModels(true);
+    try {
+      const fresh = await utils.chat.getProviders.fetch({ refresh: true });
+      utils.chat.getProviders.setData(undefined, fresh);
+    } catch (error: any) {
+      toast.error("Failed to refresh models: " + error.message);
+    } finally {
+      setIsRefreshingModels(false);
+    }
+  };
+
   const handleSave = () => {
     const finalModel = useCustomModel ? customModel.trim() : model;
     
@@ -90,10 +138,23 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
       llmModel: finalModel,
       temperature,
       systemPrompt: systemPrompt || undefined,
+      // An empty chain falls back to the user's default chain from Settings
+      fallbackProviders: fallbackProviders.length > 0 ? fallbackProviders : null,
+      providerConfigId: providerConfigId === "default" ? null : Number(providerConfigId),
     });
   };
 
-  const availableModels = llmProviders.find((p) => p.id === provider)?.models || [];
+  const handleProviderChange = (value: string) => {
+    setProvider(value);
+    // Keys belong to one provider
+    setProviderConfigId("default");
+  };
+
+  const providerCatalog = llmProviders.find((p) => p.id === provider);
+  const availableModels = providerCatalog?.models || [];
+  const selectedModelInfo = availableModels.find((m) => m.id === model);
+  const keysForProvider = providerKeys.filter((k) => k.provider === provider && k.isActive);
+  const defaultKey = keysForProvider.find((k) => k.isDefault) ?? keysForProvider[0];
 
   return (
     <>
@@ -131,7 +192,7 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
             {/* Provider Selection */}
             <div className="space-y-2">
               <Label htmlFor="provider">AI Provider</Label>
-              <Select value={provider} onValueChange={setProvider} disabled={isLoadingProviders}>
+              <Select value={provider} onValueChange={handleProviderChange} disabled={isLoadingProviders}>
                 <SelectTrigger id="provider">
                   <SelectValue placeholder="Select provider" />
                 </SelectTrigger>
@@ -149,10 +210,46 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
               </Select>
             </div>
 
+            {/* API Key Selection */}
+            {keysForProvider.length > 1 && (
+              <div className="space-y-2">
+                <Label htmlFor="provider-key">API Key</Label>
+                <Select value={providerConfigId} onValueChange={setProviderConfigId}>
+                  <SelectTrigger id="provider-key">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">
+                      Default{defaultKey && ` (${defaultKey.label || defaultKey.apiKey})`}
+                    </SelectItem>
+                    {keysForProvider.map((k) => (
+                      <SelectItem key={k.id} value={String(k.id)}>
+                        {k.label || k.apiKey}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Which key this conversation's usage is billed to
+                </p>
+              </div>
+            )}
+
             {/* Model Selection */}
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label htmlFor="model">Model</Label>
+                <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleRefreshModels}
+                  disabled={isRefreshingModels}
+                  className="h-7 text-xs"
+                >
+                  <RefreshCw className={`h-3 w-3 mr-1 ${isRefreshingModels ? "animate-spin" : ""}`} />
+                  Refresh
+                </Button>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -161,6 +258,7 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
                 >
                   {useCustomModel ? "Use Preset" : "Custom Model"}
                 </Button>
+                </div>
               </div>
               
               {useCustomModel ? (
@@ -185,8 +283,8 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
                     <SelectContent>
                       {availableModels.length > 0 ? (
                         availableModels.map((m) => (
-                          <SelectItem key={m} value={m}>
-                            {m}
+                          <SelectItem key={m.id} value={m.id}>
+                            {m.name || m.id}
                           </SelectItem>
                         ))
                       ) : (
@@ -194,13 +292,30 @@ export function ConversationSettings({ conversationId }: ConversationSettingsPro
                       )}
                     </SelectContent>
                   </Select>
+                  {selectedModelInfo && describeModel(selectedModelInfo) && (
+                    <p className="text-xs text-muted-foreground">{describeModel(selectedModelInfo)}</p>
+                  )}
                   <p className="text-xs text-muted-foreground">
                     {provider !== "openai" && "Requires API key configuration in Settings"}
+                    {providerCatalog?.error && " · Showing default models, could not load the provider's list"}
                   </p>
                 </>
               )}
             </div>
 
+            {/* Fallback Providers */}
+            <div className="space-y-2">
+              <Label>Fallback Providers</Label>
+              <FallbackChainEditor
+                value={fallbackProviders}
+                onChange={setFallbackProviders}
+                providers={llmProviders.filter((p) => p.id !== provider)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Tried in order if {providerCatalog?.name || provider} is down or rate limited. Leave empty to use your default chain from Settings.
+              </p>
+            </div>
+
             {/* Temperature */}
             <div className="space-y-2">
               <div className="flex items-center justify-between">
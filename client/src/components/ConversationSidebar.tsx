@@ -9,17 +9,49 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Plus, MessageSquare, Trash2, Settings, X } from "lucide-react";
+import { Plus, MessageSquare, Trash2, Settings, X, GitBranch, Search } from "lucide-react";
 import { ConversationTemplates } from "./ConversationTemplates";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { Link } from "wouter";
 
+/**
+ * Order conversations so each fork follows the one it was forked from, with
+ * its nesting depth. Forks of archived conversations are shown at the top level.
+ */
+function buildForkTree<T extends { id: number; parentConversationId: number | null }>(
+  conversations: T[]
+): Array<{ conversation: T; depth: number }> {
+  const ids = new Set(conversations.map((c) => c.id));
+  const children = new Map<number, T[]>();
+  const roots: T[] = [];
+
+  for (const conversation of conversations) {
+    const parentId = conversation.parentConversationId;
+    if (parentId && ids.has(parentId)) {
+      children.set(parentId, [...(children.get(parentId) ?? []), conversation]);
+    } else {
+      roots.push(conversation);
+    }
+  }
+
+  const tree: Array<{ conversation: T; depth: number }> = [];
+  const visit = (conversation: T, depth: number) => {
+    tree.push({ conversation, depth });
+    for (const child of children.get(conversation.id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  roots.forEach((root) => visit(root, 0));
+  return tree;
+}
+
 interface ConversationSidebarProps {
   currentConversationId?: number;
   onConversationSelect: (id: number) => void;
   isOpen?: boolean;
   onClose?: () => void;
+  onSearch?: () => void;
 }
 
 export function ConversationSidebar({
@@ -27,6 +59,7 @@ export function ConversationSidebar({
   onConversationSelect,
   isOpen = true,
   onClose,
+  onSearch,
 }: ConversationSidebarProps) {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newConversationTitle, setNewConversationTitle] = useState("");
@@ -109,6 +142,11 @@ export function ConversationSidebar({
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-lg font-semibold">Conversations</h2>
             <div className="flex items-center gap-2">
+              {onSearch && (
+                <Button variant="ghost" size="icon" onClick={onSearch} title="Search (Ctrl+K)">
+                  <Search className="h-5 w-5" />
+                </Button>
+              )}
               <Link href="/settings">
                 <Button variant="ghost" size="icon">
                   <Settings className="h-5 w-5" />
@@ -169,7 +207,7 @@ export function ConversationSidebar({
                 Create one to get started!
               </div>
             ) : (
-              conversations.map((conversation) => (
+              buildForkTree(conversations).map(({ conversation, depth }) => (
               <div
                 key={conversation.id}
                 className={`w-full text-left p-3 rounded-lg mb-2 transition-colors group hover:bg-accent cursor-pointer ${
@@ -177,6 +215,7 @@ export function ConversationSidebar({
                     ? "bg-accent"
                     : ""
                 }`}
+                style={{ marginLeft: Math.min(depth, 4) * 16, width: `calc(100% - ${Math.min(depth, 4) * 16}px)` }}
                 onClick={() => {
                   onConversationSelect(conversation.id);
                   onClose?.();
@@ -184,7 +223,11 @@ export function ConversationSidebar({
               >
                 <div className="flex items-start justify-between gap-2">
                   <div className="flex items-start gap-2 flex-1 min-w-0">
-                    <MessageSquare className="h-5 w-5 flex-shrink-0 mt-0.5 text-muted-foreground" />
+                    {conversation.parentConversationId ? (
+                      <GitBranch className="h-5 w-5 flex-shrink-0 mt-0.5 text-muted-foreground" />
+                    ) : (
+                      <MessageSquare className="h-5 w-5 flex-shrink-0 mt-0.5 text-muted-foreground" />
+                    )}
                     <div className="flex-1 min-w-0">
                       <h3 className="font-medium truncate">{conversation.title}</h3>
                       <p className="text-xs text-muted-foreground">
@@ -10,6 +10,7 @@ import {
 import { Download, FileJson, FileText } from "lucide-react";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
+import { stripToneTags } from "@shared/tone";
 
 interface ExportConversationProps {
   conversationId: number;
@@ -33,11 +34,12 @@ export function ExportConversation({ conversationId }: ExportConversationProps)
       },
       messages: messages.map((m) => ({
         role: m.role,
-        content: m.content,
+        content: stripToneTags(m.content),
         createdAt: m.createdAt,
         provider: m.provider,
         model: m.model,
         tokenCount: m.tokenCount,
+        audioUrl: m.audioUrl,
       })),
       exportedAt: new Date().toISOString(),
     };
@@ -68,11 +70,15 @@ export function ExportConversation({ conversationId }: ExportConversationProps)
       
       markdown += `### ${role}\n`;
       markdown += `*${timestamp}*\n\n`;
-      markdown += `${message.content}\n\n`;
+      markdown += `${stripToneTags(message.content)}\n\n`;
       
       if (message.tokenCount) {
         markdown += `*Tokens: ${message.tokenCount}*\n\n`;
       }
+
+      if (message.audioUrl) {
+        markdown += `[🔊 Audio](${message.audioUrl})\n\n`;
+      }
       
       markdown += `---\n\n`;
     });
@@ -105,11 +111,15 @@ export function ExportConversation({ conversationId }: ExportConversationProps)
       const role = message.role === "user" ? "USER" : "ASSISTANT";
       
       text += `[${timestamp}] ${role}:\n`;
-      text += `${message.content}\n`;
+      text += `${stripToneTags(message.content)}\n`;
       
       if (message.tokenCount) {
         text += `(Tokens: ${message.tokenCount})\n`;
       }
+
+      if (message.audioUrl) {
+        text += `(Audio: ${message.audioUrl})\n`;
+      }
       
       if (index < messages.length - 1) {
         text += `\n${"-".repeat(80)}\n\n`;
@@ -0,0 +1,87 @@
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowUp, X } from "lucide-react";
+
+interface FallbackProviderOption {
+  id: string;
+  name: string;
+}
+
+interface FallbackChainEditorProps {
+  /** Ordered entries, "provider" or "provider:model" */
+  value: string[];
+  onChange: (value: string[]) => void;
+  providers: FallbackProviderOption[];
+  /** Hard cap enforced by the API */
+  max?: number;
+}
+
+/**
+ * Ordered list of providers to try when the main one fails
+ */
+export function FallbackChainEditor({ value, onChange, providers, max = 5 }: FallbackChainEditorProps) {
+  const labelFor = (entry: string) => {
+    const separator = entry.indexOf(":");
+    const providerId = separator === -1 ? entry : entry.slice(0, separator);
+    const name = providers.find((p) => p.id === providerId)?.name || providerId;
+    return separator === -1 ? name : `${name} · ${entry.slice(separator + 1)}`;
+  };
+
+  const moveUp = (index: number) => {
+    const next = [...value];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  const available = providers.filter((p) => !value.includes(p.id));
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {value.map((entry, index) => (
+            <Badge key={entry} variant="secondary" className="gap-1 py-1">
+              <span className="text-muted-foreground">{index + 1}.</span>
+              {labelFor(entry)}
+              {index > 0 && (
+                <button
+                  type="button"
+                  onClick={() => moveUp(index)}
+                  className="hover:text-foreground"
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((e) => e !== entry))}
+                className="hover:text-destructive"
+                aria-label="Remove"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No fallback providers</p>
+      )}
+
+      {value.length < max && available.length > 0 && (
+        <Select value="" onValueChange={(id) => onChange([...value, id])}>
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Add a fallback provider" />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+
+/**
+ * The user's pronunciation dictionary: how product names, acronyms and other
+ * terms should be read aloud
+ */
+export function PronunciationEditor() {
+  const utils = trpc.useUtils();
+  const { data: entries = [] } = trpc.pronunciations.list.useQuery();
+  const [draft, setDraft] = useState({ term: "", alias: "", phoneme: "" });
+
+  const createMutation = trpc.pronunciations.create.useMutation({
+    onSuccess: () => {
+      utils.pronunciations.list.invalidate();
+      setDraft({ term: "", alias: "", phoneme: "" });
+      toast.success("Pronunciation added!");
+    },
+    onError: (error) => {
+      toast.error("Failed to add pronunciation: " + error.message);
+    },
+  });
+
+  const deleteMutation = trpc.pronunciations.delete.useMutation({
+    onSuccess: () => {
+      utils.pronunciations.list.invalidate();
+    },
+  });
+
+  const handleAdd = () => {
+    if (!draft.term.trim() || (!draft.alias.trim() && !draft.phoneme.trim())) {
+      toast.error("Enter a term and how to say it");
+      return;
+    }
+    createMutation.mutate({
+      term: draft.term,
+      alias: draft.alias || undefined,
+      phoneme: draft.phoneme || undefined,
+    });
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle>Pronunciations</CardTitle>
+        <CardDescription>
+          Teach the voice how to say product names, acronyms and other terms
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.length > 0 && (
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+                <div className="flex-1">
+                  <h4 className="font-medium">{entry.term}</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {entry.alias}
+                    {entry.alias && entry.phoneme && " · "}
+                    {entry.phoneme && <span className="font-mono">/{entry.phoneme}/</span>}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate({ id: entry.id })}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="pronunciation-term">Term</Label>
+            <Input
+              id="pronunciation-term"
+              value={draft.term}
+              onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+              placeholder="Kubernetes"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pronunciation-alias">Say It As</Label>
+            <Input
+              id="pronunciation-alias"
+              value={draft.alias}
+              onChange={(e) => setDraft({ ...draft, alias: e.target.value })}
+              placeholder="koo-ber-net-eez"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pronunciation-phoneme">IPA (Optional)</Label>
+            <Input
+              id="pronunciation-phoneme"
+              value={draft.phoneme}
+              onChange={(e) => setDraft({ ...draft, phoneme: e.target.value })}
+              placeholder="kuːbərˈnɛtiːz"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Voices that support phonemes (Azure Speech, some ElevenLabs models) use the IPA; the others read the alias.
+          Terms with capitals only match that exact spelling.
+        </p>
+
+        <Button onClick={handleAdd} disabled={createMutation.isPending}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Pronunciation
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,53 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { RefreshCw } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+
+interface RegenerateMenuProps {
+  onRegenerate: (override?: { provider: string; model: string }) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Re-roll an assistant reply with the conversation's model or another one
+ */
+export function RegenerateMenu({ onRegenerate, disabled }: RegenerateMenuProps) {
+  const { data: llmProviders = [] } = trpc.chat.getProviders.useQuery();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" disabled={disabled} aria-label="Regenerate">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuItem onClick={() => onRegenerate()}>Regenerate</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Regenerate with</DropdownMenuLabel>
+        {llmProviders.map((p) => (
+          <DropdownMenuSub key={p.id}>
+            <DropdownMenuSubTrigger>{p.name}</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+              {p.models.map((m) => (
+                <DropdownMenuItem key={m.id} onClick={() => onRegenerate({ provider: p.id, model: m.id })}>
+                  {m.name || m.id}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
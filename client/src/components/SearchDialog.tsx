@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bot, MessageSquare, User } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 20;
+const ALL = "all";
+
+interface Snippet {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+function HighlightedSnippet({ snippet }: { snippet: Snippet }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(snippet.text.slice(cursor, start));
+    parts.push(
+      <mark key={i} className="bg-primary/30 text-foreground rounded-sm px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(snippet.text.slice(cursor));
+  return <>{parts}</>;
+}
+
+interface SearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Jump to a conversation, and to a message in it when one was picked */
+  onSelect: (conversationId: number, messageId?: number) => void;
+}
+
+/**
+ * Search across all conversations (Ctrl+K / Cmd+K)
+ */
+export function SearchDialog({ open, onOpenChange, onSelect }: SearchDialogProps) {
+  const utils = trpc.useUtils();
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [role, setRole] = useState(ALL);
+  const [provider, setProvider] = useState(ALL);
+  const [conversationId, setConversationId] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { data: conversations = [] } = trpc.conversations.list.useQuery(undefined, { enabled: open });
+  const { data: llmProviders = [] } = trpc.chat.getProviders.useQuery(undefined, { enabled: open });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const input = {
+    query: debouncedQuery,
+    role: role === ALL ? undefined : (role as "user" | "assistant"),
+    provider: provider === ALL ? undefined : provider,
+    conversationId: conversationId === ALL ? undefined : Number(conversationId),
+    from: from ? new Date(`${from}T00:00:00`) : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+    limit: PAGE_SIZE,
+  };
+
+  const { data, isFetching } = trpc.messages.search.useQuery(
+    { ...input, offset: 0 },
+    { enabled: open && debouncedQuery.length > 0 }
+  );
+
+  // Later pages are appended to the first one until the query or filters change
+  type SearchResults = NonNullable<typeof data>;
+  const [morePages, setMorePages] = useState<SearchResults["messages"]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  useEffect(() => {
+    setMorePages([]);
+    setNextOffset(data?.nextOffset ?? null);
+  }, [data]);
+
+  const handleLoadMore = async () => {
+    if (nextOffset === null) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await utils.messages.search.fetch({ ...input, offset: nextOffset });
+      setMorePages((prev) => [...prev, ...page.messages]);
+      setNextOffset(page.nextOffset);
+    } catch (error: any) {
+      toast.error("Search failed: " + error.message);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleSelect = (targetConversationId: number, messageId?: number) => {
+    onOpenChange(false);
+    onSelect(targetConversationId, messageId);
+  };
+
+  const messageResults = [...(data?.messages ?? []), ...morePages];
+  const titleResults = data?.conversations ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 max-w-2xl">
+        <DialogHeader className="sr-only">
+          <DialogTitle>Search conversations</DialogTitle>
+          <DialogDescription>Search message content and conversation titles</DialogDescription>
+        </DialogHeader>
+        <Command shouldFilter={false}>
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search all conversations..."
+          />
+
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2">
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger className="h-8 w-[120px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Anyone</SelectItem>
+                <SelectItem value="user">You</SelectItem>
+                <SelectItem value="assistant">Assistant</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger className="h-8 w-[140px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any provider</SelectItem>
+                {llmProviders.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={conversationId} onValueChange={setConversationId}>
+              <SelectTrigger className="h-8 w-[170px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All conversations</SelectItem>
+                {conversations.map((c) => (
+                  <SelectItem key={c.id} value={String(c.id)}>
+                    {c.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="h-8 w-[140px] text-xs"
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="h-8 w-[140px] text-xs"
+              aria-label="To date"
+            />
+          </div>
+
+          <CommandList className="max-h-[400px]">
+            {debouncedQuery && !isFetching && (
+              <CommandEmpty>No results found.</CommandEmpty>
+            )}
+
+            {titleResults.length > 0 && (
+              <CommandGroup heading="Conversations">
+                {titleResults.map((c) => (
+                  <CommandItem key={`conversation-${c.id}`} value={`conversation-${c.id}`} onSelect={() => handleSelect(c.id)}>
+                    <MessageSquare className="text-muted-foreground" />
+                    <span className="truncate">
+                      <HighlightedSnippet snippet={c.snippet} />
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {messageResults.length > 0 && (
+              <CommandGroup heading="Messages">
+                {messageResults.map((m) => (
+                  <CommandItem
+                    key={`message-${m.id}`}
+                    value={`message-${m.id}`}
+                    onSelect={() => handleSelect(m.conversationId, m.id)}
+                    className="items-start"
+                  >
+                    {m.role === "user" ? (
+                      <User className="text-muted-foreground mt-0.5" />
+                    ) : (
+                      <Bot className="text-muted-foreground mt-0.5" />
+                    )}
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        <span className="truncate">{m.conversationTitle}</span>
+                        <span className="flex-shrink-0">{new Date(m.createdAt).toLocaleDateString()}</span>
+                      </div>
+                      <p className="text-sm line-clamp-2">
+                        <HighlightedSnippet snippet={m.snippet} />
+                      </p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {nextOffset !== null && (
+              <div className="p-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={handleLoadMore}
+                  disabled={isLoadingMore}
+                >
+                  {isLoadingMore ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,79 @@
+import { Wrench, ChevronRight } from "lucide-react";
+import { Streamdown } from "streamdown";
+
+interface ToolActivityProps {
+  message: {
+    role: "user" | "assistant" | "system" | "tool";
+    content: string;
+    toolCalls?: Array<{ id: string; function: { name: string; arguments: string } }> | null;
+    toolName?: string | null;
+  };
+}
+
+/**
+ * Pull an image URL out of a tool result, e.g. from generate_image
+ */
+function getImageUrl(content: string): string | null {
+  try {
+    const result = JSON.parse(content);
+    return typeof result?.imageUrl === "string" ? result.imageUrl : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compact transcript entry for a tool call made by the assistant or the result it got back
+ */
+export function ToolActivity({ message }: ToolActivityProps) {
+  if (message.role === "tool") {
+    const imageUrl = getImageUrl(message.content);
+
+    if (imageUrl) {
+      return (
+        <div className="ml-11 max-w-[80%]">
+          <a href={imageUrl} target="_blank" rel="noreferrer">
+            <img
+              src={imageUrl}
+              alt="Generated image"
+              className="rounded-lg border border-border max-h-96 object-contain"
+            />
+          </a>
+        </div>
+      );
+    }
+
+    return (
+      <details className="ml-11 max-w-[80%] text-xs text-muted-foreground group">
+        <summary className="flex items-center gap-1 cursor-pointer select-none">
+          <ChevronRight className="h-3 w-3 transition-transform group-open:rotate-90" />
+          Result from <span className="font-mono">{message.toolName}</span>
+        </summary>
+        <pre className="mt-1 p-2 rounded bg-muted whitespace-pre-wrap break-all max-h-48 overflow-auto">
+          {message.content}
+        </pre>
+      </details>
+    );
+  }
+
+  return (
+    <div className="ml-11 max-w-[80%] space-y-1">
+      {message.content && (
+        <div className="glass rounded-lg px-4 py-3">
+          <Streamdown>{message.content}</Streamdown>
+        </div>
+      )}
+      {message.toolCalls?.map((call) => (
+        <div key={call.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Wrench className="h-3 w-3" />
+          <span>
+            Ran <span className="font-mono">{call.function.name}</span>
+          </span>
+          {call.function.arguments && call.function.arguments !== "{}" && (
+            <span className="font-mono truncate">{call.function.arguments}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+
+interface VersionSwitcherProps {
+  conversationId: number;
+  messageId: number;
+  /** All versions of the message including itself, oldest first */
+  siblingIds: number[];
+  disabled?: boolean;
+}
+
+/**
+ * "< 2/3 >" control for flipping between versions of an edited or regenerated message
+ */
+export function VersionSwitcher({ conversationId, messageId, siblingIds, disabled }: VersionSwitcherProps) {
+  const utils = trpc.useUtils();
+  const switchVersion = trpc.messages.switchVersion.useMutation({
+    onSuccess: () => utils.messages.list.invalidate({ conversationId }),
+    onError: (error) => toast.error("Failed to switch version: " + error.message),
+  });
+
+  if (siblingIds.length < 2) return null;
+
+  const index = siblingIds.indexOf(messageId);
+  const isBusy = disabled || switchVersion.isPending;
+
+  return (
+    <div className="flex items-center text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={isBusy || index <= 0}
+        onClick={() => switchVersion.mutate({ messageId: siblingIds[index - 1] })}
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <span className="tabular-nums">
+        {index + 1}/{siblingIds.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={isBusy || index >= siblingIds.length - 1}
+        onClick={() => switchVersion.mutate({ messageId: siblingIds[index + 1] })}
+        aria-label="Next version"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
@@ -3,6 +3,11 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Phone, PhoneOff, Mic, MicOff } from "lucide-react";
 import { trpc } from "@/lib/trpc";
+import { AudioQueue } from "@/lib/audioQueue";
+import { PcmCapture } from "@/lib/pcmCapture";
+import { voiceSocketUrl } from "@/lib/voiceSocket";
+import type { VoiceClientMessage, VoiceServerMessage } from "@shared/voice";
+import { stripToneTags } from "@shared/tone";
 import { toast } from "sonner";
 
 
@@ -18,194 +23,177 @@ export function VoiceCallMode({ conversationId, onClose }: VoiceCallModeProps) {
   const [transcript, setTranscript] = useState("");
   const [aiResponse, setAiResponse] = useState("");
 
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
-  const silenceTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const vadIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const isRecordingRef = useRef(false);
+  const captureRef = useRef<PcmCapture | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const playerRef = useRef<AudioQueue | null>(null);
+  // A reply is being generated or played; speech during it is a barge-in
+  const isBusyRef = useRef(false);
+  // Latest turn the server started from the user's speech
+  const latestTurnIdRef = useRef(0);
+  // Turns up to this id were interrupted; anything still arriving for them is dropped
+  const cancelledThroughRef = useRef(0);
+  // Turn and sentence the next binary audio frame belongs to
+  const audioTurnRef = useRef(0);
+  const audioSentenceRef = useRef(0);
 
   const utils = trpc.useUtils();
 
-  const transcribeMutation = trpc.voice.transcribe.useMutation();
-  const chatMutation = trpc.chat.send.useMutation();
-  const ttsMutation = trpc.voice.generateSpeech.useMutation();
-
-  // Voice Activity Detection
-  const detectVoiceActivity = () => {
-    if (!analyserRef.current) return false;
-
-    const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-    analyserRef.current.getByteFrequencyData(dataArray);
+  const finishTurn = () => {
+    isBusyRef.current = false;
+    setIsProcessing(false);
+  };
 
-    const average = dataArray.reduce((a, b) => a + b) / dataArray.length;
-    return average > 30; // Threshold for voice detection
+  // The user talked over the reply: stop playback and tell the server how much was heard
+  const bargeIn = () => {
+    const player = playerRef.current;
+    const position = player?.position ?? { playedMs: 0 };
+    player?.stop();
+    socketRef.current?.send(JSON.stringify({ type: "interrupt", ...position } satisfies VoiceClientMessage));
+    cancelledThroughRef.current = latestTurnIdRef.current;
+    finishTurn();
   };
 
-  const startRecording = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
+  const handleServerMessage = (message: VoiceServerMessage) => {
+    if ("turnId" in message && message.turnId <= cancelledThroughRef.current) return;
 
-      // Setup audio context for VAD
-      audioContextRef.current = new AudioContext();
-      const source = audioContextRef.current.createMediaStreamSource(stream);
-      analyserRef.current = audioContextRef.current.createAnalyser();
-      analyserRef.current.fftSize = 2048;
-      source.connect(analyserRef.current);
+    switch (message.type) {
+      case "speech_start":
+        if (isBusyRef.current) bargeIn();
+        setTranscript("Listening...");
+        setAiResponse("");
+        break;
+      case "speech_end":
+        latestTurnIdRef.current = message.turnId;
+        isBusyRef.current = true;
+        setIsProcessing(true);
+        setTranscript("Processing...");
+        break;
+      case "speech_discarded":
+        if (!isBusyRef.current) setTranscript("");
+        break;
+      case "partial_transcript":
+        if (message.text) setTranscript(message.text);
+        break;
+      case "transcript":
+        setTranscript(message.text || "(no speech detected)");
+        setAiResponse("");
+        break;
+      case "reply_delta":
+        setAiResponse((prev) => prev + message.content);
+        break;
+      case "reply_done":
+        setAiResponse(message.content);
+        utils.messages.list.invalidate({ conversationId });
+        break;
+      case "sentence_audio":
+        audioTurnRef.current = message.turnId;
+        audioSentenceRef.current = message.index;
+        break;
+      case "audio_end":
+        playerRef.current?.end();
+        break;
+      case "turn_done":
+        // Wait for the reply to finish playing before the turn is over
+        if (!playerRef.current?.isPlaying) finishTurn();
+        break;
+      case "budget_warning":
+        toast.warning(message.message);
+        break;
+      case "error":
+        toast.error("Voice call error: " + message.message);
+        break;
+    }
+  };
 
-      const mediaRecorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
+  const connect = () =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(voiceSocketUrl());
+      socket.binaryType = "arraybuffer";
 
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
+      socket.onopen = () => {
+        socket.send(JSON.stringify({ type: "start", conversationId } satisfies VoiceClientMessage));
+      };
+      socket.onmessage = (event) => {
+        if (event.data instanceof ArrayBuffer) {
+          if (audioTurnRef.current > cancelledThroughRef.current) {
+            playerRef.current?.enqueue(audioSentenceRef.current, event.data);
+          }
+          return;
         }
+        const message: VoiceServerMessage = JSON.parse(event.data);
+        if (message.type === "ready") resolve(socket);
+        handleServerMessage(message);
       };
-
-      mediaRecorder.onstop = async () => {
-        if (audioChunksRef.current.length === 0) return;
-
-        const audioBlob = new Blob(audioChunksRef.current, { type: "audio/webm" });
-        audioChunksRef.current = [];
-
-        // Process the audio
-        await processAudio(audioBlob);
+      socket.onerror = () => reject(new Error("Could not connect to the voice server"));
+      socket.onclose = () => {
+        if (socketRef.current === socket) {
+          socketRef.current = null;
+          stopRecording();
+        }
       };
+    });
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        // Keeps the assistant's own voice from the speakers from counting as a barge-in
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      });
+      streamRef.current = stream;
 
-      // Start VAD monitoring
-      let isSpeaking = false;
-      let silenceStart: number | null = null;
+      const player = new AudioQueue();
+      player.onEnded = finishTurn;
+      playerRef.current = player;
 
-      vadIntervalRef.current = setInterval(() => {
-        const hasVoice = detectVoiceActivity();
+      const socket = await connect();
+      socketRef.current = socket;
 
-        if (hasVoice) {
-          if (!isSpeaking) {
-            // Start recording
-            isSpeaking = true;
-            silenceStart = null;
-            if (!isRecordingRef.current && mediaRecorder.state === "inactive") {
-              mediaRecorder.start();
-              isRecordingRef.current = true;
-              setTranscript("Listening...");
-            }
-          }
-        } else {
-          if (isSpeaking) {
-            // Detect silence
-            if (!silenceStart) {
-              silenceStart = Date.now();
-            } else if (Date.now() - silenceStart > 1500) {
-              // 1.5 seconds of silence
-              isSpeaking = false;
-              silenceStart = null;
-              if (isRecordingRef.current && mediaRecorder.state === "recording") {
-                mediaRecorder.stop();
-                isRecordingRef.current = false;
-              }
-            }
-          }
-        }
-      }, 100);
+      // The microphone streams continuously; the server detects speech and its end
+      const capture = new PcmCapture();
+      capture.onChunk = (pcm) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(pcm.buffer);
+      };
+      captureRef.current = capture;
+      await capture.start(stream);
 
       setIsActive(true);
       toast.success("Voice call started");
-    } catch (error) {
-      console.error("Failed to start recording:", error);
-      toast.error("Failed to access microphone");
+    } catch (error: any) {
+      console.error("Failed to start voice call:", error);
+      toast.error(error?.message || "Failed to access microphone");
+      stopRecording();
     }
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-      mediaRecorderRef.current.stop();
-    }
+    captureRef.current?.stop();
+    captureRef.current = null;
 
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((track) => track.stop());
       streamRef.current = null;
     }
 
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
-    }
-
-    if (vadIntervalRef.current) {
-      clearInterval(vadIntervalRef.current);
-      vadIntervalRef.current = null;
-    }
-
-    if (silenceTimerRef.current) {
-      clearTimeout(silenceTimerRef.current);
-      silenceTimerRef.current = null;
+    const socket = socketRef.current;
+    socketRef.current = null;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: "stop" } satisfies VoiceClientMessage));
+      socket.close();
     }
 
-    isRecordingRef.current = false;
-    setIsActive(false);
-    toast.info("Voice call ended");
-  };
-
-  const processAudio = async (audioBlob: Blob) => {
-    setIsProcessing(true);
-    setTranscript("Processing...");
-
-    try {
-      // Upload audio
-      const audioFile = new File([audioBlob], "recording.webm", { type: "audio/webm" });
-      const formData = new FormData();
-      formData.append("file", audioFile);
-
-      const uploadResponse = await fetch("/api/upload", {
-        method: "POST",
-        body: formData,
-      });
+    playerRef.current?.close();
+    playerRef.current = null;
 
-      if (!uploadResponse.ok) {
-        throw new Error("Failed to upload audio");
-      }
-
-      const { url: audioUrl } = await uploadResponse.json();
-
-      // Transcribe
-      const transcription = await transcribeMutation.mutateAsync({ audioUrl });
-      setTranscript(transcription.text);
-
-      if (!transcription.text.trim()) {
-        setIsProcessing(false);
-        return;
-      }
-
-      // Get AI response
-      const response = await chatMutation.mutateAsync({
-        conversationId,
-        message: transcription.text,
-      });
-
-      setAiResponse(response.content);
-
-      // Generate and play TTS
-      const ttsResult = await ttsMutation.mutateAsync({ text: response.content });
-      
-      // Play audio
-      const audio = new Audio(ttsResult.audioUrl);
-      audio.onended = () => {
-        setAiResponse("");
-        setTranscript("");
-        setIsProcessing(false);
-      };
-      audio.play();
-
-      // Invalidate messages
-      utils.messages.list.invalidate({ conversationId });
-    } catch (error: any) {
-      console.error("Processing error:", error);
-      toast.error("Failed to process audio: " + error.message);
-      setIsProcessing(false);
+    isBusyRef.current = false;
+    latestTurnIdRef.current = 0;
+    cancelledThroughRef.current = 0;
+    audioTurnRef.current = 0;
+    audioSentenceRef.current = 0;
+    setIsProcessing(false);
+    if (isActive) {
+      setIsActive(false);
+      toast.info("Voice call ended");
     }
   };
 
@@ -239,7 +227,7 @@ export function VoiceCallMode({ conversationId, onClose }: VoiceCallModeProps) {
           <div className="space-y-2">
             <h2 className="text-2xl font-bold">Voice Call Mode</h2>
             <p className="text-muted-foreground">
-              {isActive ? "Speak naturally - AI will respond automatically" : "Start a voice conversation"}
+              {isActive ? "Speak naturally - talk over the AI to interrupt it" : "Start a voice conversation"}
             </p>
           </div>
 
@@ -254,7 +242,7 @@ export function VoiceCallMode({ conversationId, onClose }: VoiceCallModeProps) {
             {aiResponse && (
               <div className="p-4 rounded-lg bg-primary/10">
                 <p className="text-sm font-medium mb-1">AI:</p>
-                <p className="text-sm">{aiResponse}</p>
+                <p className="text-sm">{stripToneTags(aiResponse, { streaming: true })}</p>
               </div>
             )}
             {isProcessing && !aiResponse && (
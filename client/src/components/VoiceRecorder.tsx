@@ -2,6 +2,11 @@ import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Mic, Square, Loader2 } from "lucide-react";
 import { trpc } from "@/lib/trpc";
+import { PcmCapture } from "@/lib/pcmCapture";
+import { voiceSocketUrl } from "@/lib/voiceSocket";
+import { PCM_SAMPLE_RATE } from "@shared/voice";
+import type { DictationClientMessage, DictationServerMessage } from "@shared/voice";
+import { Endpointer } from "@shared/vad";
 import { toast } from "sonner";
 
 interface VoiceRecorderProps {
@@ -14,90 +19,63 @@ export function VoiceRecorder({ onTranscriptionComplete, isDisabled }: VoiceReco
   const [audioLevel, setAudioLevel] = useState(0);
   const [isSpeaking, setIsSpeaking] = useState(false);
   
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
-  const silenceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [partialText, setPartialText] = useState("");
 
-  const { data: settings } = trpc.settings.get.useQuery();
-  const uploadAudioMutation = trpc.voice.uploadAudio.useMutation();
-  const transcribeMutation = trpc.voice.transcribe.useMutation();
+  const captureRef = useRef<PcmCapture | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
 
-  const silenceThreshold = settings?.silenceThreshold || 1500;
-  const vadSensitivity = (settings?.vadSensitivity || 70) / 100;
+  const { data: settings } = trpc.settings.get.useQuery();
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-      if (silenceTimeoutRef.current) {
-        clearTimeout(silenceTimeoutRef.current);
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-        mediaRecorderRef.current.stop();
-      }
+      captureRef.current?.stop();
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      socketRef.current?.close();
     };
   }, []);
 
-  // Voice Activity Detection with silence detection
-  const detectVoiceActivity = (dataArray: Uint8Array) => {
-    const average = dataArray.reduce((a, b) => a + b) / dataArray.length;
-    const normalizedLevel = average / 255;
-    setAudioLevel(normalizedLevel);
-
-    const isCurrentlySpeaking = normalizedLevel > vadSensitivity * 0.15; // Threshold for speech
-
-    if (isCurrentlySpeaking) {
-      setIsSpeaking(true);
-      // Clear any existing silence timeout
-      if (silenceTimeoutRef.current) {
-        clearTimeout(silenceTimeoutRef.current);
-        silenceTimeoutRef.current = null;
-      }
-    } else if (isSpeaking && !silenceTimeoutRef.current) {
-      // User stopped speaking, start silence timer
-      silenceTimeoutRef.current = setTimeout(() => {
-        // Auto-stop recording after silence threshold
-        if (isRecording) {
-          stopRecording();
-          toast.info("Recording stopped (silence detected)");
+  const handleServerMessage = (message: DictationServerMessage) => {
+    switch (message.type) {
+      case "partial_transcript":
+        setPartialText(message.text);
+        break;
+      case "final_transcript":
+        setIsProcessing(false);
+        setPartialText("");
+        if (message.text) {
+          onTranscriptionComplete(message.text);
+          toast.success("Voice message transcribed!");
+        } else {
+          toast.warning("No speech detected. Please try again.");
         }
-      }, silenceThreshold);
+        break;
+      case "budget_warning":
+        toast.warning(message.message);
+        break;
+      case "error":
+        console.error("Transcription error:", message.message);
+        setIsProcessing(false);
+        setPartialText("");
+        toast.error("Failed to transcribe audio. Please try again.");
+        break;
     }
   };
 
-  // Visualize audio levels with VAD
-  const visualizeAudio = (stream: MediaStream) => {
-    const audioContext = new AudioContext();
-    audioContextRef.current = audioContext;
-    
-    const source = audioContext.createMediaStreamSource(stream);
-    const analyser = audioContext.createAnalyser();
-    analyser.fftSize = 512;
-    analyser.smoothingTimeConstant = 0.8;
-    source.connect(analyser);
-    analyserRef.current = analyser;
-
-    const dataArray = new Uint8Array(analyser.frequencyBinCount);
-
-    const updateLevel = () => {
-      if (!analyserRef.current) return;
-      
-      analyser.getByteFrequencyData(dataArray);
-      detectVoiceActivity(dataArray);
-
-      animationFrameRef.current = requestAnimationFrame(updateLevel);
-    };
-
-    updateLevel();
-  };
+  // Words come back while the user is still talking
+  const connect = () =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(voiceSocketUrl("dictation"));
+      socket.onopen = () => resolve(socket);
+      socket.onerror = () => reject(new Error("Could not connect to the voice server"));
+      socket.onmessage = (event) => handleServerMessage(JSON.parse(event.data));
+      socket.onclose = () => {
+        if (socketRef.current === socket) socketRef.current = null;
+        setIsProcessing(false);
+      };
+    });
 
   const startRecording = async () => {
     try {
@@ -108,100 +86,74 @@ export function VoiceRecorder({ onTranscriptionComplete, isDisabled }: VoiceReco
           autoGainControl: true,
         } 
       });
-      
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm',
-      });
-      
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
+      streamRef.current = stream;
 
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-        }
-      };
+      const socket = await connect();
+      socketRef.current = socket;
 
-      mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        
-        // Check file size (16MB limit)
-        if (audioBlob.size > 16 * 1024 * 1024) {
-          toast.error("Audio file too large. Please record a shorter message.");
-          return;
-        }
-
-        // Check if recording is too short (less than 0.5 seconds)
-        if (audioBlob.size < 5000) {
-          toast.warning("Recording too short. Please try again.");
-          return;
-        }
-
-        // Convert to base64
-        const reader = new FileReader();
-        reader.onloadend = async () => {
-          const base64Audio = (reader.result as string).split(',')[1];
-          
-          try {
-            // Upload audio
-            const uploadResult = await uploadAudioMutation.mutateAsync({
-              audioData: base64Audio,
-              fileName: `recording-${Date.now()}.webm`,
-              mimeType: 'audio/webm',
-            });
-
-            // Transcribe
-            const transcription = await transcribeMutation.mutateAsync({
-              audioUrl: uploadResult.url,
-            });
+      // Same speech detection as voice calls, so fans and typing don't hold the recording open
+      const endpointer = new Endpointer({
+        sampleRate: PCM_SAMPLE_RATE,
+        sensitivity: settings?.vadSensitivity ?? undefined,
+        silenceMs: settings?.silenceThreshold ?? undefined,
+      });
 
-            onTranscriptionComplete(transcription.text);
-            toast.success("Voice message transcribed!");
-          } catch (error) {
-            console.error("Transcription error:", error);
-            toast.error("Failed to transcribe audio. Please try again.");
+      const capture = new PcmCapture();
+      capture.onChunk = (pcm) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(pcm.buffer);
+
+        let sumSquares = 0;
+        for (let i = 0; i < pcm.length; i++) sumSquares += (pcm[i] / 32768) ** 2;
+        setAudioLevel(Math.min(1, Math.sqrt(sumSquares / pcm.length) * 4));
+
+        for (const event of endpointer.push(pcm)) {
+          if (event.type === "speech_start") {
+            setIsSpeaking(true);
+          } else if (event.type === "discarded") {
+            setIsSpeaking(false);
+          } else if (event.type === "utterance") {
+            // Auto-stop once the speech is followed by the silence threshold
+            stopRecording();
+            toast.info("Recording stopped (silence detected)");
           }
-        };
-        reader.readAsDataURL(audioBlob);
-
-        // Stop all tracks
-        stream.getTracks().forEach(track => track.stop());
+        }
       };
+      captureRef.current = capture;
+      await capture.start(stream);
 
-      visualizeAudio(stream);
-      mediaRecorder.start();
       setIsRecording(true);
       setIsSpeaking(false);
+      setPartialText("");
       toast.info("Recording started... Speak now!");
     } catch (error) {
       console.error("Error accessing microphone:", error);
       toast.error("Failed to access microphone. Please check permissions.");
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+      socketRef.current?.close();
     }
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      setAudioLevel(0);
-      setIsSpeaking(false);
-      
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-      if (silenceTimeoutRef.current) {
-        clearTimeout(silenceTimeoutRef.current);
-        silenceTimeoutRef.current = null;
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-        audioContextRef.current = null;
-      }
+    const capture = captureRef.current;
+    if (!capture) return;
+    capture.stop();
+    captureRef.current = null;
+
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+
+    setIsRecording(false);
+    setAudioLevel(0);
+    setIsSpeaking(false);
+
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: "finish" } satisfies DictationClientMessage));
+      setIsProcessing(true);
     }
   };
 
-  const isProcessing = uploadAudioMutation.isPending || transcribeMutation.isPending;
-
   return (
     <div className="flex items-center gap-3">
       {/* Waveform visualization */}
@@ -242,12 +194,16 @@ export function VoiceRecorder({ onTranscriptionComplete, isDisabled }: VoiceReco
         )}
       </Button>
 
-      {isRecording && (
-        <span className="text-sm text-muted-foreground">
-          {isSpeaking ? (
+      {(isRecording || isProcessing) && (
+        <span className="text-sm text-muted-foreground truncate max-w-xs">
+          {partialText ? (
+            <span className="text-foreground">{partialText}</span>
+          ) : isSpeaking ? (
             <span className="text-primary font-medium animate-pulse">Listening...</span>
-          ) : (
+          ) : isRecording ? (
             <span>Waiting for speech...</span>
+          ) : (
+            <span>Transcribing...</span>
           )}
         </span>
       )}
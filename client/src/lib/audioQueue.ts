@@ -0,0 +1,144 @@
+interface Clip {
+  index: number;
+  buffer: AudioBuffer;
+  source: AudioBufferSourceNode;
+  startAt: number;
+}
+
+/** Where playback is, for working out how much of a reply was heard */
+export interface QueuePosition {
+  /** Sentence that was playing, or last finished; omitted if none has started */
+  sentenceIndex?: number;
+  playedMs: number;
+  durationMs?: number;
+}
+
+/**
+ * Plays a reply's sentence clips back to back as they arrive. Web Audio
+ * schedules each clip to start exactly when the one before it ends, so
+ * there are no gaps between sentences.
+ */
+export class AudioQueue {
+  private readonly context = new AudioContext();
+  /** Scheduled clips that haven't finished, in order */
+  private clips: Clip[] = [];
+  private decoding: Promise<void> = Promise.resolve();
+  private pendingDecodes = 0;
+  private lastFinished: { index: number; durationMs: number } | null = null;
+  private ended = false;
+  // Bumped by stop() so clips still decoding are dropped
+  private generation = 0;
+
+  /** Called once end() has been called and every clip has played */
+  onEnded?: () => void;
+
+  get isPlaying() {
+    return this.clips.length > 0 || this.pendingDecodes > 0;
+  }
+
+  get position(): QueuePosition {
+    const now = this.context.currentTime;
+    const current = this.clips.find(clip => clip.startAt <= now);
+    if (current) {
+      return {
+        sentenceIndex: current.index,
+        playedMs: Math.round((now - current.startAt) * 1000),
+        durationMs: Math.round(current.buffer.duration * 1000),
+      };
+    }
+    // Between clips, everything up to the last one was heard
+    if (this.lastFinished) {
+      return {
+        sentenceIndex: this.lastFinished.index,
+        playedMs: this.lastFinished.durationMs,
+        durationMs: this.lastFinished.durationMs,
+      };
+    }
+    return { playedMs: 0 };
+  }
+
+  /** Add a sentence's clip; clips play in the order they're added */
+  enqueue(index: number, data: ArrayBuffer) {
+    const generation = this.generation;
+    this.pendingDecodes++;
+    this.context.resume().catch(() => {});
+
+    this.decoding = this.decoding.then(async () => {
+      const buffer = await this.context.decodeAudioData(data).catch(error => {
+        console.warn("[Audio] Could not decode clip:", error);
+        return null;
+      });
+      if (generation !== this.generation) return;
+      this.pendingDecodes--;
+      if (buffer) this.schedule(index, buffer);
+      this.checkEnded();
+    });
+  }
+
+  /** No more clips are coming */
+  end() {
+    this.ended = true;
+    this.checkEnded();
+  }
+
+  /** Cut the sentence that's playing short; the ones after it move up */
+  skip() {
+    const now = this.context.currentTime;
+    const current = this.clips.find(clip => clip.startAt <= now);
+    if (!current) return;
+
+    const remaining = this.clips.filter(clip => clip !== current);
+    this.clearScheduled();
+    this.lastFinished = { index: current.index, durationMs: Math.round(current.buffer.duration * 1000) };
+    for (const clip of remaining) this.schedule(clip.index, clip.buffer);
+    this.checkEnded();
+  }
+
+  /** Stop playback and drop everything queued; the queue can be reused */
+  stop() {
+    this.generation++;
+    this.clearScheduled();
+    this.decoding = Promise.resolve();
+    this.pendingDecodes = 0;
+    this.lastFinished = null;
+    this.ended = false;
+  }
+
+  close() {
+    this.stop();
+    this.context.close().catch(() => {});
+  }
+
+  private schedule(index: number, buffer: AudioBuffer) {
+    const last = this.clips[this.clips.length - 1];
+    const startAt = Math.max(this.context.currentTime + 0.05, last ? last.startAt + last.buffer.duration : 0);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.context.destination);
+    source.start(startAt);
+
+    const clip = { index, buffer, source, startAt };
+    source.onended = () => {
+      this.clips = this.clips.filter(other => other !== clip);
+      this.lastFinished = { index, durationMs: Math.round(buffer.duration * 1000) };
+      this.checkEnded();
+    };
+    this.clips.push(clip);
+  }
+
+  private clearScheduled() {
+    for (const clip of this.clips) {
+      clip.source.onended = null;
+      clip.source.stop();
+    }
+    this.clips = [];
+  }
+
+  private checkEnded() {
+    if (this.ended && !this.isPlaying) {
+      this.ended = false;
+      this.onEnded?.();
+    }
+  }
+}
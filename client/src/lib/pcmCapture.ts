@@ -0,0 +1,95 @@
+import { PCM_SAMPLE_RATE } from "@shared/voice";
+
+// Runs on the audio thread and hands blocks of raw samples to the main thread
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(2048);
+    this.length = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      if (this.length + channel.length > this.buffer.length) {
+        this.port.postMessage(this.buffer.slice(0, this.length));
+        this.length = 0;
+      }
+      this.buffer.set(channel, this.length);
+      this.length += channel.length;
+    }
+    return true;
+  }
+}
+registerProcessor("pcm-capture", PcmCaptureProcessor);
+`;
+
+/** Samples per chunk handed to onChunk (100 ms) */
+const CHUNK_SAMPLES = PCM_SAMPLE_RATE / 10;
+
+/**
+ * Captures a microphone stream as 16-bit mono PCM at PCM_SAMPLE_RATE,
+ * resampled from whatever rate the audio device runs at
+ */
+export class PcmCapture {
+  private context: AudioContext | null = null;
+  private workletUrl: string | null = null;
+  private carry = new Float32Array(0);
+  private position = 0;
+  private output: number[] = [];
+
+  /** Called with roughly 100 ms of audio at a time */
+  onChunk?: (pcm: Int16Array) => void;
+
+  async start(stream: MediaStream) {
+    const context = new AudioContext();
+    this.context = context;
+
+    this.workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: "application/javascript" }));
+    await context.audioWorklet.addModule(this.workletUrl);
+
+    const source = context.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(context, "pcm-capture", { numberOfInputs: 1, numberOfOutputs: 0 });
+    node.port.onmessage = (event: MessageEvent<Float32Array>) => this.resample(event.data);
+    source.connect(node);
+  }
+
+  stop() {
+    this.context?.close();
+    this.context = null;
+    if (this.workletUrl) {
+      URL.revokeObjectURL(this.workletUrl);
+      this.workletUrl = null;
+    }
+    this.carry = new Float32Array(0);
+    this.position = 0;
+    this.output = [];
+  }
+
+  // Each output sample averages the input samples it spans
+  private resample(input: Float32Array) {
+    const ratio = this.context!.sampleRate / PCM_SAMPLE_RATE;
+    const data = new Float32Array(this.carry.length + input.length);
+    data.set(this.carry);
+    data.set(input, this.carry.length);
+
+    let position = this.position;
+    while (position + ratio <= data.length) {
+      const start = Math.floor(position);
+      const end = Math.max(start + 1, Math.floor(position + ratio));
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += data[i];
+      const sample = Math.max(-1, Math.min(1, sum / (end - start)));
+      this.output.push(Math.round(sample * 32767));
+      position += ratio;
+    }
+
+    const consumed = Math.floor(position);
+    this.carry = data.slice(consumed);
+    this.position = position - consumed;
+
+    while (this.output.length >= CHUNK_SAMPLES) {
+      this.onChunk?.(Int16Array.from(this.output.splice(0, CHUNK_SAMPLES)));
+    }
+  }
+}
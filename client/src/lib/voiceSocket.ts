@@ -0,0 +1,8 @@
+import { VOICE_SOCKET_PATH } from "@shared/voice";
+
+/** WebSocket URL for a voice call, or for dictation when `mode` is "dictation" */
+export function voiceSocketUrl(mode?: "dictation") {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const query = mode ? `?mode=${mode}` : "";
+  return `${protocol}//${window.location.host}${VOICE_SOCKET_PATH}${query}`;
+}
@@ -5,6 +5,7 @@ import { getLoginUrl } from "@/const";
 import { ConversationSidebar } from "@/components/ConversationSidebar";
 import { ConversationTemplates } from "@/components/ConversationTemplates";
 import { ChatInterface } from "@/components/ChatInterface";
+import { SearchDialog } from "@/components/SearchDialog";
 import { trpc } from "@/lib/trpc";
 import { Loader2, Sparkles, Menu } from "lucide-react";
 
@@ -12,6 +13,8 @@ export default function Home() {
   const { user, loading } = useAuth();
   const [selectedConversationId, setSelectedConversationId] = useState<number | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
   const hasCreatedInitialConversation = useRef(false);
   const utils = trpc.useUtils();
 
@@ -40,6 +43,11 @@ export default function Home() {
     }
   }, [user, loading, conversations, selectedConversationId, createConversationMutation]);
 
+  const handleSearchSelect = (conversationId: number, messageId?: number) => {
+    setSelectedConversationId(conversationId);
+    setFocusMessageId(messageId ?? null);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center gradient-bg">
@@ -116,6 +124,13 @@ export default function Home() {
         onConversationSelect={setSelectedConversationId}
         isOpen={isSidebarOpen}
         onClose={() => setIsSidebarOpen(false)}
+        onSearch={() => setIsSearchOpen(true)}
+      />
+
+      <SearchDialog
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        onSelect={handleSearchSelect}
       />
       
       <div className="flex-1 flex flex-col">
@@ -131,7 +146,12 @@ export default function Home() {
         </div>
 
         {selectedConversationId ? (
-          <ChatInterface conversationId={selectedConversationId} />
+          <ChatInterface
+            conversationId={selectedConversationId}
+            onConversationSelect={setSelectedConversationId}
+            focusMessageId={focusMessageId}
+            onFocusHandled={() => setFocusMessageId(null)}
+          />
         ) : (
           <div className="flex-1 flex items-center justify-center">
             <div className="text-center">
@@ -11,7 +11,10 @@ import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { Link } from "wouter";
-import { ArrowLeft, Save, Plus, Trash2, Eye, EyeOff } from "lucide-react";
+import { ArrowLeft, Save, Plus, Trash2, RefreshCw } from "lucide-react";
+import { FallbackChainEditor } from "@/components/FallbackChainEditor";
+import { PronunciationEditor } from "@/components/PronunciationEditor";
+import { BudgetEditor } from "@/components/BudgetEditor";
 
 export default function Settings() {
   const { user, loading } = useAuth();
@@ -31,13 +34,13 @@ export default function Settings() {
   const [autoPlayTts, setAutoPlayTts] = useState(false);
   const [defaultTextProvider, setDefaultTextProvider] = useState("openai");
   const [defaultTextModel, setDefaultTextModel] = useState("gpt-4");
+  const [fallbackProviders, setFallbackProviders] = useState<string[]>([]);
   const [defaultSttProvider, setDefaultSttProvider] = useState("whisper");
   const [defaultTtsProvider, setDefaultTtsProvider] = useState("elevenlabs");
   const [defaultTtsVoice, setDefaultTtsVoice] = useState("");
 
   // Provider management state
-  const [newProvider, setNewProvider] = useState({ provider: "", apiKey: "", label: "" });
-  const [showApiKeys, setShowApiKeys] = useState<Record<number, boolean>>({});
+  const [newProvider, setNewProvider] = useState({ provider: "", apiKey: "", label: "", baseUrl: "", models: "" });
 
   // Load settings into state
   useEffect(() => {
@@ -48,6 +51,7 @@ export default function Settings() {
       setAutoPlayTts(settings.autoPlayResponses || false);
       setDefaultTextProvider(settings.defaultTextProvider || "openai");
       setDefaultTextModel(settings.defaultTextModel || "gpt-4");
+      setFallbackProviders(settings.fallbackProviders || []);
       setDefaultSttProvider(settings.defaultSttProvider || "whisper");
       setDefaultTtsProvider(settings.defaultTtsProvider || "elevenlabs");
       setDefaultTtsVoice(settings.defaultTtsVoice || "");
@@ -66,16 +70,43 @@ export default function Settings() {
   });
 
   const createProviderMutation = trpc.providers.create.useMutation({
-    onSuccess: () => {
+    onSuccess: (result) => {
       utils.providers.list.invalidate();
-      setNewProvider({ provider: "", apiKey: "", label: "" });
-      toast.success("Provider added successfully!");
+      setNewProvider({ provider: "", apiKey: "", label: "", baseUrl: "", models: "" });
+      if (result.healthStatus === "ok") {
+        toast.success("Provider added successfully!");
+      } else {
+        toast.warning("Provider added, but the connection test failed: " + result.healthError);
+      }
     },
     onError: (error) => {
       toast.error("Failed to add provider: " + error.message);
     },
   });
 
+  const setDefaultProviderMutation = trpc.providers.setDefault.useMutation({
+    onSuccess: () => {
+      utils.providers.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error("Failed to set default key: " + error.message);
+    },
+  });
+
+  const testProviderMutation = trpc.providers.test.useMutation({
+    onSuccess: (result) => {
+      utils.providers.list.invalidate();
+      if (result.healthStatus === "ok") {
+        toast.success("Connection OK");
+      } else {
+        toast.error("Connection failed: " + result.healthError);
+      }
+    },
+    onError: (error) => {
+      toast.error("Failed to test provider: " + error.message);
+    },
+  });
+
   const deleteProviderMutation = trpc.providers.delete.useMutation({
     onSuccess: () => {
       utils.providers.list.invalidate();
@@ -89,6 +120,7 @@ export default function Settings() {
       vadSensitivity,
       ttsSpeed,
       autoPlayResponses: autoPlayTts,
+      defaultSttProvider,
       defaultTtsProvider,
       defaultTtsVoice,
     });
@@ -98,19 +130,42 @@ export default function Settings() {
     updateSettingsMutation.mutate({
       defaultTextProvider,
       defaultTextModel,
+      fallbackProviders,
     });
   };
 
+  const isCompatibleProvider = newProvider.provider === "openai-compatible";
+  const isAzureProvider = newProvider.provider === "azure";
+
   const handleAddProvider = () => {
-    if (!newProvider.provider || !newProvider.apiKey) {
+    if (isCompatibleProvider) {
+      if (!newProvider.baseUrl.trim()) {
+        toast.error("Base URL is required for OpenAI-compatible servers");
+        return;
+      }
+    } else if (!newProvider.provider || !newProvider.apiKey) {
       toast.error("Provider and API key are required");
       return;
+    } else if (isAzureProvider && !newProvider.baseUrl.trim()) {
+      toast.error("Region is required for Azure Speech");
+      return;
     }
 
+    const models = newProvider.models
+      .split(",")
+      .map((m) => m.trim())
+      .filter(Boolean);
+
     createProviderMutation.mutate({
       provider: newProvider.provider,
       apiKey: newProvider.apiKey,
-      // label: newProvider.label || newProvider.provider,
+      baseUrl: isCompatibleProvider
+        ? newProvider.baseUrl.trim()
+        : isAzureProvider
+          ? `https://${newProvider.baseUrl.trim().toLowerCase()}.tts.speech.microsoft.com`
+          : undefined,
+      models: isCompatibleProvider && models.length > 0 ? models : undefined,
+      label: newProvider.label.trim() || undefined,
     });
   };
 
@@ -120,10 +175,6 @@ export default function Settings() {
     }
   };
 
-  const toggleApiKeyVisibility = (id: number) => {
-    setShowApiKeys(prev => ({ ...prev, [id]: !prev[id] }));
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center gradient-bg">
@@ -209,14 +260,26 @@ export default function Settings() {
                       {llmProviders
                         .find((p) => p.id === defaultTextProvider)
                         ?.models.map((model) => (
-                          <SelectItem key={model} value={model}>
-                            {model}
+                          <SelectItem key={model.id} value={model.id}>
+                            {model.name || model.id}
                           </SelectItem>
                         ))}
                     </SelectContent>
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Fallback Providers</Label>
+                  <FallbackChainEditor
+                    value={fallbackProviders}
+                    onChange={setFallbackProviders}
+                    providers={llmProviders.filter((p) => p.id !== defaultTextProvider)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Tried in order when a conversation's provider is down or rate limited. Providers without an API key are skipped.
+                  </p>
+                </div>
+
                 <Button onClick={handleSaveAISettings} disabled={updateSettingsMutation.isPending}>
                   <Save className="h-4 w-4 mr-2" />
                   Save AI Settings
@@ -236,7 +299,7 @@ export default function Settings() {
                   <div className="p-3 rounded-lg border border-border">
                     <h4 className="font-medium mb-1">OpenAI</h4>
                     <p className="text-sm text-muted-foreground">
-                      GPT-4, GPT-3.5 Turbo - Built-in support, no API key required
+                      GPT-4o, GPT-4.1 - Built-in support, no API key required
                     </p>
                   </div>
                   <div className="p-3 rounded-lg border border-border">
@@ -254,7 +317,13 @@ export default function Settings() {
                   <div className="p-3 rounded-lg border border-border">
                     <h4 className="font-medium mb-1">Anthropic Claude</h4>
                     <p className="text-sm text-muted-foreground">
-                      Claude 3.5 Sonnet, Opus, Haiku - Requires API key
+                      Claude Opus, Sonnet, Haiku - Requires API key
+                    </p>
+                  </div>
+                  <div className="p-3 rounded-lg border border-border">
+                    <h4 className="font-medium mb-1">OpenAI-Compatible</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Self-hosted Ollama, LM Studio, vLLM or llama.cpp - Requires a base URL
                     </p>
                   </div>
                 </div>
@@ -407,6 +476,8 @@ export default function Settings() {
                 </Button>
               </CardContent>
             </Card>
+
+            <PronunciationEditor />
           </TabsContent>
 
           {/* API Keys Tab */}
@@ -429,15 +500,59 @@ export default function Settings() {
                       <SelectItem value="openrouter">OpenRouter</SelectItem>
                       <SelectItem value="mistral">Mistral AI</SelectItem>
                       <SelectItem value="anthropic">Anthropic Claude</SelectItem>
+                      <SelectItem value="openai-compatible">OpenAI-Compatible (Ollama, LM Studio, vLLM)</SelectItem>
                       <SelectItem value="elevenlabs">ElevenLabs</SelectItem>
                       <SelectItem value="deepgram">Deepgram</SelectItem>
                       <SelectItem value="hume">Hume AI</SelectItem>
+                      <SelectItem value="azure">Azure Speech</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
+                {isCompatibleProvider && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="base-url">Base URL</Label>
+                      <Input
+                        id="base-url"
+                        value={newProvider.baseUrl}
+                        onChange={(e) => setNewProvider({ ...newProvider, baseUrl: e.target.value })}
+                        placeholder="https://ollama.example.com/v1"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Models are read from the server's /v1/models endpoint
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="models">Extra Models (Optional)</Label>
+                      <Input
+                        id="models"
+                        value={newProvider.models}
+                        onChange={(e) => setNewProvider({ ...newProvider, models: e.target.value })}
+                        placeholder="llama3.1:8b, qwen2.5:14b"
+                      />
+                    </div>
+                  </>
+                )}
+
+                {isAzureProvider && (
+                  <div className="space-y-2">
+                    <Label htmlFor="azure-region">Region</Label>
+                    <Input
+                      id="azure-region"
+                      value={newProvider.baseUrl}
+                      onChange={(e) => setNewProvider({ ...newProvider, baseUrl: e.target.value })}
+                      placeholder="eastus"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      The region of your Speech resource in the Azure portal
+                    </p>
+                  </div>
+                )}
+
                 <div className="space-y-2">
-                  <Label htmlFor="api-key">API Key</Label>
+                  <Label htmlFor="api-key">API Key{isCompatibleProvider && " (Optional)"}</Label>
                   <Input
                     id="api-key"
                     type="password"
@@ -480,25 +595,64 @@ export default function Settings() {
                   <div className="space-y-3">
                     {providers.map((provider) => (
                       <div key={provider.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
-                        <div className="flex-1">
-                          <h4 className="font-medium">{provider.provider}</h4>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span
+                              className={`h-2 w-2 rounded-full ${
+                                provider.healthStatus === "ok"
+                                  ? "bg-green-500"
+                                  : provider.healthStatus === "error"
+                                    ? "bg-red-500"
+                                    : "bg-muted-foreground"
+                              }`}
+                              title={provider.healthStatus === "ok" ? "Connected" : provider.healthStatus === "error" ? "Connection failed" : "Not tested"}
+                            />
+                            <h4 className="font-medium">
+                              {provider.provider}
+                              {provider.label && <span className="text-muted-foreground font-normal"> · {provider.label}</span>}
+                            </h4>
+                            {provider.isDefault && providers.filter((p) => p.provider === provider.provider).length > 1 && (
+                              <span className="text-xs rounded-full border border-border px-2 py-0.5 text-muted-foreground">Default</span>
+                            )}
+                          </div>
+                          {provider.baseUrl && (
+                            <p className="text-xs text-muted-foreground font-mono">{provider.baseUrl}</p>
+                          )}
                           <p className="text-sm text-muted-foreground font-mono">
-                            {showApiKeys[provider.id] 
-                              ? provider.apiKey 
-                              : '•'.repeat(20)}
+                            {provider.apiKey || "No API key"}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {provider.lastVerifiedAt
+                              ? `Last tested ${new Date(provider.lastVerifiedAt).toLocaleString()}`
+                              : "Not tested yet"}
                           </p>
+                          {provider.healthStatus === "error" && provider.healthError && (
+                            <p className="text-xs text-destructive break-words">{provider.healthError}</p>
+                          )}
                         </div>
                         <div className="flex items-center gap-2">
+                          {!provider.isDefault && providers.some((p) => p.provider === provider.provider && p.id !== provider.id) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDefaultProviderMutation.mutate({ id: provider.id })}
+                              disabled={setDefaultProviderMutation.isPending}
+                            >
+                              Make Default
+                            </Button>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => toggleApiKeyVisibility(provider.id)}
+                            title="Test connection"
+                            onClick={() => testProviderMutation.mutate({ id: provider.id })}
+                            disabled={testProviderMutation.isPending && testProviderMutation.variables?.id === provider.id}
                           >
-                            {showApiKeys[provider.id] ? (
-                              <EyeOff className="h-4 w-4" />
-                            ) : (
-                              <Eye className="h-4 w-4" />
-                            )}
+                            <RefreshCw
+                              className={`h-4 w-4 ${
+                                testProviderMutation.isPending && testProviderMutation.variables?.id === provider.id ? "animate-spin" : ""
+                              }`}
+                            />
                           </Button>
                           <Button
                             variant="ghost"
@@ -540,6 +694,8 @@ export default function Settings() {
                 </div>
               </CardContent>
             </Card>
+
+            <BudgetEditor />
           </TabsContent>
         </Tabs>
       </div>
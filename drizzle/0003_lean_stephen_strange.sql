@@ -0,0 +1,4 @@
+ALTER TABLE `messages` MODIFY COLUMN `role` enum('user','assistant','system','tool') NOT NULL;--> statement-breakpoint
+ALTER TABLE `messages` ADD `toolCalls` json;--> statement-breakpoint
+ALTER TABLE `messages` ADD `toolCallId` varchar(128);--> statement-breakpoint
+ALTER TABLE `messages` ADD `toolName` varchar(64);
\ No newline at end of file
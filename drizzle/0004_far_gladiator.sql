@@ -0,0 +1,2 @@
+ALTER TABLE `providerConfigs` ADD `baseUrl` text;--> statement-breakpoint
+ALTER TABLE `providerConfigs` ADD `models` json;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `conversations` ADD `fallbackProviders` json;--> statement-breakpoint
+ALTER TABLE `userSettings` ADD `fallbackProviders` json;
\ No newline at end of file
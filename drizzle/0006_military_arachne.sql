@@ -0,0 +1,2 @@
+ALTER TABLE `conversations` ADD `summary` text;--> statement-breakpoint
+ALTER TABLE `conversations` ADD `summarizedThroughMessageId` int;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `conversations` ADD `activeLeafId` int;--> statement-breakpoint
+ALTER TABLE `messages` ADD `parentId` int;--> statement-breakpoint
+UPDATE `messages` m JOIN (SELECT a.`id`, MAX(b.`id`) AS `prevId` FROM `messages` a JOIN `messages` b ON b.`conversationId` = a.`conversationId` AND b.`id` < a.`id` GROUP BY a.`id`) p ON p.`id` = m.`id` SET m.`parentId` = p.`prevId`;--> statement-breakpoint
+UPDATE `conversations` c JOIN (SELECT `conversationId`, MAX(`id`) AS `leafId` FROM `messages` GROUP BY `conversationId`) l ON l.`conversationId` = c.`id` SET c.`activeLeafId` = l.`leafId`;
@@ -0,0 +1,2 @@
+ALTER TABLE `conversations` ADD `parentConversationId` int;--> statement-breakpoint
+ALTER TABLE `conversations` ADD `forkedFromMessageId` int;
\ No newline at end of file
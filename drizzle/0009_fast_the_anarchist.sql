@@ -0,0 +1,9 @@
+CREATE TABLE `ttsCache` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`contentHash` varchar(64) NOT NULL,
+	`audioUrl` text NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ttsCache_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ttsCache_userId_contentHash` UNIQUE(`userId`,`contentHash`)
+);
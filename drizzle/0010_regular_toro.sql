@@ -0,0 +1,5 @@
+ALTER TABLE `voiceProfiles` ADD `speed` int;--> statement-breakpoint
+ALTER TABLE `voiceProfiles` ADD `stability` int;--> statement-breakpoint
+ALTER TABLE `voiceProfiles` ADD `similarity` int;--> statement-breakpoint
+ALTER TABLE `voiceProfiles` ADD `style` int;--> statement-breakpoint
+ALTER TABLE `voiceProfiles` ADD `pitch` int;
\ No newline at end of file
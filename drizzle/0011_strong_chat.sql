@@ -0,0 +1,9 @@
+CREATE TABLE `pronunciations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`term` varchar(128) NOT NULL,
+	`alias` text,
+	`phoneme` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `pronunciations_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `providerConfigs` ADD `dataKey` text;--> statement-breakpoint
+ALTER TABLE `providerConfigs` ADD `keyVersion` int;
\ No newline at end of file
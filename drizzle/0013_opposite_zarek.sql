@@ -0,0 +1,3 @@
+ALTER TABLE `providerConfigs` ADD `healthStatus` enum('ok','error');--> statement-breakpoint
+ALTER TABLE `providerConfigs` ADD `healthError` text;--> statement-breakpoint
+ALTER TABLE `providerConfigs` ADD `lastVerifiedAt` timestamp;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `conversations` ADD `providerConfigId` int;--> statement-breakpoint
+ALTER TABLE `providerConfigs` ADD `label` varchar(128);--> statement-breakpoint
+ALTER TABLE `providerConfigs` ADD `isDefault` boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `usageStats` ADD `providerConfigId` int;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `budgets` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`provider` varchar(64),
+	`period` enum('daily','monthly') NOT NULL,
+	`metric` enum('tokens','audioMinutes','dollars') NOT NULL,
+	`amount` int NOT NULL,
+	`warnedFor` timestamp,
+	`stoppedFor` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `budgets_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `usageStats` ADD `costMicros` int;
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean } from "drizzle-orm/mysql-core";
+import { int, json, mysqlEnum, mysqlTable, text, timestamp, varchar, boolean, uniqueIndex } from "drizzle-orm/mysql-core";
+import type { ToolCall } from "../server/_core/llm";
 
 /**
  * Core user table backing auth flow.
@@ -29,6 +30,13 @@ export const conversations = mysqlTable("conversations", {
   llmProvider: varchar("llmProvider", { length: 64 }).default("openai"), // AI provider
   llmModel: varchar("llmModel", { length: 128 }).default("gpt-4"), // AI model
   temperature: int("temperature").default(70), // Temperature * 100 (0-200)
+  fallbackProviders: json("fallbackProviders").$type<string[]>(), // Ordered "provider" or "provider:model" entries tried when the main provider fails
+  providerConfigId: int("providerConfigId"), // Key billed for llmProvider; null uses the provider's default key
+  summary: text("summary"), // Rolling summary of messages too old to send verbatim
+  summarizedThroughMessageId: int("summarizedThroughMessageId"), // Last message folded into the summary
+  activeLeafId: int("activeLeafId"), // Last message of the branch currently shown; the thread is its chain of parents
+  parentConversationId: int("parentConversationId"), // Set on forks: the conversation this one was forked from
+  forkedFromMessageId: int("forkedFromMessageId"), // Set on forks: the last message copied from the parent
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastMessageAt: timestamp("lastMessageAt"),
@@ -44,13 +52,17 @@ export type InsertConversation = typeof conversations.$inferInsert;
 export const messages = mysqlTable("messages", {
   id: int("id").autoincrement().primaryKey(),
   conversationId: int("conversationId").notNull(),
-  role: mysqlEnum("role", ["user", "assistant", "system"]).notNull(),
+  parentId: int("parentId"), // Previous message in the thread; messages sharing a parent are alternate versions
+  role: mysqlEnum("role", ["user", "assistant", "system", "tool"]).notNull(),
   content: text("content").notNull(),
   audioUrl: text("audioUrl"), // For voice messages
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   tokenCount: int("tokenCount"),
   provider: varchar("provider", { length: 64 }), // Which AI provider was used
   model: varchar("model", { length: 128 }), // Which model was used
+  toolCalls: json("toolCalls").$type<ToolCall[]>(), // Tool calls requested by an assistant message
+  toolCallId: varchar("toolCallId", { length: 128 }), // For tool messages: the call being answered
+  toolName: varchar("toolName", { length: 64 }), // For tool messages: which tool ran
 });
 
 export type Message = typeof messages.$inferSelect;
@@ -65,6 +77,7 @@ export const userSettings = mysqlTable("userSettings", {
   // AI Provider preferences
   defaultTextProvider: varchar("defaultTextProvider", { length: 64 }).default("openai"),
   defaultTextModel: varchar("defaultTextModel", { length: 128 }).default("gpt-4"),
+  fallbackProviders: json("fallbackProviders").$type<string[]>(), // Default fallback chain for conversations without their own
   defaultSttProvider: varchar("defaultSttProvider", { length: 64 }).default("whisper"),
   defaultSttModel: varchar("defaultSttModel", { length: 64 }).default("whisper-1"),
   defaultTtsProvider: varchar("defaultTtsProvider", { length: 64 }).default("elevenlabs"),
@@ -92,8 +105,17 @@ export const providerConfigs = mysqlTable("providerConfigs", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
   provider: varchar("provider", { length: 64 }).notNull(),
-  apiKey: text("apiKey").notNull(), // Should be encrypted in production
+  label: varchar("label", { length: 128 }), // Tells keys for the same provider apart, e.g. "Team"
+  isDefault: boolean("isDefault").default(false).notNull(), // Key used for this provider unless a conversation picks another
+  apiKey: text("apiKey").notNull(), // Encrypted (server/secrets.ts); plaintext while keyVersion is null
+  dataKey: text("dataKey"), // The key's data key, encrypted with the master key
+  keyVersion: int("keyVersion"), // Master key version, null for rows saved before encryption
+  baseUrl: text("baseUrl"), // For self-hosted OpenAI-compatible servers (Ollama, LM Studio, vLLM)
+  models: json("models").$type<string[]>(), // Extra model ids to offer alongside the server's /v1/models
   isActive: boolean("isActive").default(true).notNull(),
+  healthStatus: mysqlEnum("healthStatus", ["ok", "error"]), // Result of the last credential check, null if never checked
+  healthError: text("healthError"), // The provider's error when the check failed
+  lastVerifiedAt: timestamp("lastVerifiedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -111,6 +133,12 @@ export const voiceProfiles = mysqlTable("voiceProfiles", {
   provider: varchar("provider", { length: 64 }).notNull(),
   voiceId: varchar("voiceId", { length: 128 }).notNull(),
   sampleUrl: text("sampleUrl"), // Audio sample for reference
+  // Tuning; providers use what they support and ignore the rest
+  speed: int("speed"), // percentage, applied on top of the user's TTS speed
+  stability: int("stability"), // 0-100
+  similarity: int("similarity"), // 0-100
+  style: int("style"), // 0-100
+  pitch: int("pitch"), // semitones
   isDefault: boolean("isDefault").default(false).notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
@@ -118,6 +146,37 @@ export const voiceProfiles = mysqlTable("voiceProfiles", {
 export type VoiceProfile = typeof voiceProfiles.$inferSelect;
 export type InsertVoiceProfile = typeof voiceProfiles.$inferInsert;
 
+/**
+ * How the user wants a term pronounced: an alias read in its place, and/or
+ * IPA for providers that accept phonemes
+ */
+export const pronunciations = mysqlTable("pronunciations", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  term: varchar("term", { length: 128 }).notNull(),
+  alias: text("alias"),
+  phoneme: text("phoneme"), // IPA
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type Pronunciation = typeof pronunciations.$inferSelect;
+export type InsertPronunciation = typeof pronunciations.$inferInsert;
+
+/**
+ * Synthesized speech already in storage, keyed by a hash of the text and
+ * voice settings so the same audio isn't paid for twice
+ */
+export const ttsCache = mysqlTable("ttsCache", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  contentHash: varchar("contentHash", { length: 64 }).notNull(), // sha256 of text, voice, tuning and pronunciations
+  audioUrl: text("audioUrl").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, table => [uniqueIndex("ttsCache_userId_contentHash").on(table.userId, table.contentHash)]);
+
+export type TtsCacheEntry = typeof ttsCache.$inferSelect;
+export type InsertTtsCacheEntry = typeof ttsCache.$inferInsert;
+
 /**
  * Usage tracking for analytics and cost management
  */
@@ -130,8 +189,29 @@ export const usageStats = mysqlTable("usageStats", {
   tokenCount: int("tokenCount"),
   audioSeconds: int("audioSeconds"),
   requestCount: int("requestCount").default(1).notNull(),
+  providerConfigId: int("providerConfigId"), // Key the request was billed to; null for built-in services
+  costMicros: int("costMicros"), // Estimated cost in millionths of a US dollar, where the model's price is known
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type UsageStats = typeof usageStats.$inferSelect;
 export type InsertUsageStats = typeof usageStats.$inferInsert;
+
+/**
+ * Spending limits per period, over all of a user's usage or one provider's
+ */
+export const budgets = mysqlTable("budgets", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  provider: varchar("provider", { length: 64 }), // null covers every provider
+  period: mysqlEnum("period", ["daily", "monthly"]).notNull(),
+  metric: mysqlEnum("metric", ["tokens", "audioMinutes", "dollars"]).notNull(),
+  amount: int("amount").notNull(), // Tokens, audio minutes or US cents
+  warnedFor: timestamp("warnedFor"), // Start of the period the 80% alert was sent for
+  stoppedFor: timestamp("stoppedFor"), // Start of the period the 100% alert was sent for
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Budget = typeof budgets.$inferSelect;
+export type InsertBudget = typeof budgets.$inferInsert;
@@ -7,4 +7,10 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  piperPath: process.env.PIPER_PATH ?? "piper",
+  piperVoicesDir: process.env.PIPER_VOICES_DIR ?? "",
+  ffmpegPath: process.env.FFMPEG_PATH ?? "ffmpeg",
+  apiKeyEncryptionKeys: process.env.API_KEY_ENCRYPTION_KEYS ?? "",
+  localSttTranscript: process.env.LOCAL_STT_TRANSCRIPT ?? "Hello from the local recognizer",
+  allowPrivateProviderUrls: process.env.ALLOW_PRIVATE_PROVIDER_URLS === "true",
 };
@@ -1,3 +1,4 @@
+import { HttpError } from "@shared/_core/errors";
 import { ENV } from "./env";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
@@ -30,6 +31,7 @@ export type Message = {
   content: MessageContent | MessageContent[];
   name?: string;
   tool_call_id?: string;
+  tool_calls?: ToolCall[];
 };
 
 export type Tool = {
@@ -57,6 +59,8 @@ export type ToolChoice =
 
 export type InvokeParams = {
   messages: Message[];
+  model?: string;
+  temperature?: number;
   tools?: Tool[];
   toolChoice?: ToolChoice;
   tool_choice?: ToolChoice;
@@ -66,6 +70,7 @@ export type InvokeParams = {
   output_schema?: OutputSchema;
   responseFormat?: ResponseFormat;
   response_format?: ResponseFormat;
+  signal?: AbortSignal;
 };
 
 export type ToolCall = {
@@ -153,6 +158,10 @@ const normalizeMessage = (message: Message) => {
   }
 
   const contentParts = ensureArray(message.content).map(normalizeContentPart);
+  const toolCalls =
+    message.tool_calls && message.tool_calls.length > 0
+      ? { tool_calls: message.tool_calls }
+      : {};
 
   // If there's only text content, collapse to a single string for compatibility
   if (contentParts.length === 1 && contentParts[0].type === "text") {
@@ -160,6 +169,7 @@ const normalizeMessage = (message: Message) => {
       role,
       name,
       content: contentParts[0].text,
+      ...toolCalls,
     };
   }
 
@@ -167,6 +177,7 @@ const normalizeMessage = (message: Message) => {
     role,
     name,
     content: contentParts,
+    ...toolCalls,
   };
 };
 
@@ -265,14 +276,16 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
-
+const buildPayload = (params: InvokeParams): Record<string, unknown> => {
   const {
     messages,
+    model,
+    temperature,
     tools,
     toolChoice,
     tool_choice,
+    maxTokens,
+    max_tokens,
     outputSchema,
     output_schema,
     responseFormat,
@@ -280,10 +293,14 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   } = params;
 
   const payload: Record<string, unknown> = {
-    model: "gemini-2.5-flash",
+    model: model || "gemini-2.5-flash",
     messages: messages.map(normalizeMessage),
   };
 
+  if (temperature !== undefined) {
+    payload.temperature = temperature;
+  }
+
   if (tools && tools.length > 0) {
     payload.tools = tools;
   }
@@ -296,9 +313,11 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.tool_choice = normalizedToolChoice;
   }
 
-  payload.max_tokens = 32768
-  payload.thinking = {
-    "budget_tokens": 128
+  payload.max_tokens = maxTokens || max_tokens || 32768
+  if (String(payload.model).startsWith("gemini")) {
+    payload.thinking = {
+      "budget_tokens": 128
+    }
   }
 
   const normalizedResponseFormat = normalizeResponseFormat({
@@ -312,6 +331,10 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.response_format = normalizedResponseFormat;
   }
 
+  return payload;
+};
+
+const postCompletion = async (payload: Record<string, unknown>, signal?: AbortSignal) => {
   const response = await fetch(resolveApiUrl(), {
     method: "POST",
     headers: {
@@ -319,14 +342,38 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
       authorization: `Bearer ${ENV.forgeApiKey}`,
     },
     body: JSON.stringify(payload),
+    signal,
   });
 
   if (!response.ok) {
     const errorText = await response.text();
-    throw new Error(
+    throw new HttpError(
+      response.status,
       `LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`
     );
   }
 
+  return response;
+};
+
+export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
+  assertApiKey();
+
+  const response = await postCompletion(buildPayload(params), params.signal);
+
   return (await response.json()) as InvokeResult;
 }
+
+/**
+ * Same request as invokeLLM, but with `stream: true`. Resolves with the raw
+ * response so callers can read the OpenAI-style SSE body chunk by chunk.
+ */
+export async function invokeLLMStream(params: InvokeParams): Promise<Response> {
+  assertApiKey();
+
+  return postCompletion({
+    ...buildPayload(params),
+    stream: true,
+    stream_options: { include_usage: true },
+  }, params.signal);
+}
@@ -0,0 +1,116 @@
+import { TRPCError } from "@trpc/server";
+import type { Budget, User } from "../drizzle/schema";
+import { notifyOwner } from "./_core/notification";
+import * as db from "./db";
+
+/** Share of a budget at which the user is warned and the owner alerted */
+const WARNING_RATIO = 0.8;
+
+export interface BudgetStatus {
+  budget: Budget;
+  /** Usage this period, in the budget's unit (tokens, audio minutes or US cents) */
+  used: number;
+  ratio: number;
+}
+
+/** Start of the budget's current period, in UTC */
+function periodStart(period: Budget["period"], now = new Date()): Date {
+  return period === "daily"
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function formatAmount(metric: Budget["metric"], value: number): string {
+  switch (metric) {
+    case "tokens":
+      return `${Math.round(value).toLocaleString("en-US")} tokens`;
+    case "audioMinutes":
+      return `${value.toFixed(1)} audio minutes`;
+    case "dollars":
+      return `$${(value / 100).toFixed(2)}`;
+  }
+}
+
+/** e.g. "monthly openrouter budget" */
+function describeBudget(budget: Budget): string {
+  return `${budget.period} ${budget.provider ?? "overall"} budget`;
+}
+
+async function getBudgetUsage(userId: number, budget: Budget): Promise<number> {
+  const totals = await db.getUsageTotals(userId, periodStart(budget.period), budget.provider);
+  switch (budget.metric) {
+    case "tokens":
+      return totals.tokens;
+    case "audioMinutes":
+      return totals.audioSeconds / 60;
+    case "dollars":
+      return totals.costMicros / 10_000;
+  }
+}
+
+/** The user's budgets with this period's usage, optionally only those covering a provider */
+export async function getBudgetStatuses(userId: number, provider?: string): Promise<BudgetStatus[]> {
+  const budgets = (await db.getUserBudgets(userId))
+    .filter(b => !provider || !b.provider || b.provider === provider);
+
+  return Promise.all(budgets.map(async budget => {
+    const used = await getBudgetUsage(userId, budget);
+    return { budget, used, ratio: budget.amount > 0 ? used / budget.amount : 1 };
+  }));
+}
+
+/**
+ * Alert the owner the first time in a period a budget crosses a threshold.
+ * Failing to notify never blocks the request.
+ */
+async function alertOwner(user: User, status: BudgetStatus, threshold: "warning" | "limit") {
+  const { budget, used } = status;
+  const start = periodStart(budget.period);
+  const alertedFor = threshold === "limit" ? budget.stoppedFor : budget.warnedFor;
+  if (alertedFor && alertedFor.getTime() >= start.getTime()) return;
+
+  await db.updateBudget(budget.id, user.id, threshold === "limit" ? { stoppedFor: start } : { warnedFor: start });
+
+  const who = user.name || user.email || `User ${user.id}`;
+  const usage = `${formatAmount(budget.metric, used)} of ${formatAmount(budget.metric, budget.amount)}`;
+  try {
+    await notifyOwner({
+      title: threshold === "limit"
+        ? `${who} reached their ${describeBudget(budget)}`
+        : `${who} has used ${Math.floor(status.ratio * 100)}% of their ${describeBudget(budget)}`,
+      content: `${who} (user #${user.id}) has used ${usage} this period.`
+        + (threshold === "limit" ? " Further requests are refused until the period ends." : ""),
+    });
+  } catch (error) {
+    console.error("[Budget] Failed to notify owner:", error);
+  }
+}
+
+/**
+ * Check the user's budgets covering a provider before using it. Throws once a
+ * budget is spent; returns a warning for each budget past 80%.
+ */
+export async function enforceBudgets(user: User, provider: string): Promise<string[]> {
+  const statuses = await getBudgetStatuses(user.id, provider);
+  const warnings: string[] = [];
+
+  for (const status of statuses) {
+    const { budget, used } = status;
+    if (status.ratio >= 1) {
+      await alertOwner(user, status, "limit");
+      throw new TRPCError({
+        code: "TOO_MANY_REQUESTS",
+        message: `Your ${describeBudget(budget)} of ${formatAmount(budget.metric, budget.amount)} is used up`,
+      });
+    }
+    if (status.ratio >= WARNING_RATIO) {
+      await alertOwner(user, status, "warning");
+      warnings.push(
+        `You've used ${formatAmount(budget.metric, used)} of your ${describeBudget(budget)} `
+          + `(${formatAmount(budget.metric, budget.amount)})`
+      );
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,376 @@
+import { TRPCError } from "@trpc/server";
+import type { Conversation, ProviderConfig, User, UserSettings } from "../drizzle/schema";
+import { enforceBudgets } from "./budgets";
+import { buildContext } from "./context";
+import * as db from "./db";
+import { selectProviderConfig } from "./providers/credentials";
+import { streamLLMWithFallback } from "./providers/fallback";
+import type { LLMTarget } from "./providers/fallback";
+import { estimateCost, toCostMicros } from "./providers/catalog";
+import { getAvailableModels, supportsTools } from "./providers/llm";
+import type { LLMMessage, LLMUsage, ToolCall } from "./providers/llm";
+import { executeToolCall, getToolDefinitions } from "./tools";
+import { TONE_INSTRUCTIONS } from "@shared/tone";
+
+const DEFAULT_SYSTEM_PROMPT = "You are a helpful AI assistant with voice capabilities. Provide clear, concise, and helpful responses.";
+
+/**
+ * Maximum number of model round trips in a single turn. The last round still
+ * lists the tools, since the history holds calls to them, but with tool
+ * choice "none" so the model has to answer in text.
+ */
+const MAX_TOOL_ROUNDS = 5;
+
+const MAX_REPLY_TOKENS = 2000;
+
+export interface ChatTurn {
+  /** Main provider first, then the fallback chain */
+  targets: LLMTarget[];
+  temperature: number;
+  messages: LLMMessage[];
+  /** Budgets covering the targets that are past 80% */
+  budgetWarnings: string[];
+}
+
+export interface ChatRequest {
+  message?: string;
+  /** Save `message` as a new version of this user message and answer from there */
+  editMessageId?: number;
+  /** Answer the prompt behind this assistant reply again, as a new version of it */
+  regenerateMessageId?: number;
+  /** Provider and model for this turn only, instead of the conversation's */
+  override?: { provider: string; model: string };
+  /** Recording the message was transcribed from */
+  audioUrl?: string;
+}
+
+/**
+ * Split a fallback chain entry: "anthropic", "built-in" or "provider:model".
+ * Only the first colon separates, since Ollama model ids contain colons.
+ */
+function parseFallbackEntry(entry: string): { provider: string; model?: string } {
+  const separator = entry.indexOf(":");
+  const provider = separator === -1 ? entry : entry.slice(0, separator);
+  const model = separator === -1 ? undefined : entry.slice(separator + 1);
+  return {
+    provider: provider === "built-in" ? "openai" : provider,
+    model: model || undefined,
+  };
+}
+
+/**
+ * Resolve the conversation's provider and its fallback chain (or the user's
+ * default chain) into targets with credentials. The main provider uses the
+ * conversation's chosen key and fallbacks their default key; fallbacks that
+ * need a key the user hasn't configured are skipped.
+ *
+ * Targets whose provider is over budget are skipped too, so falling back
+ * can't spend past a limit. When every target is, the first budget error is
+ * thrown.
+ */
+async function resolveTargets(
+  user: User,
+  conversation: Conversation,
+  settings: UserSettings | undefined,
+  providerConfigs: ProviderConfig[]
+): Promise<{ targets: LLMTarget[]; budgetWarnings: string[] }> {
+  const primaryProvider = conversation.llmProvider || "openai";
+  const primaryConfig = selectProviderConfig(providerConfigs, primaryProvider, conversation.providerConfigId);
+  const targets: LLMTarget[] = [{
+    provider: primaryProvider,
+    model: conversation.llmModel || "gpt-4",
+    apiKey: primaryConfig?.apiKey || undefined,
+    baseUrl: primaryConfig?.baseUrl || undefined,
+    providerConfigId: primaryConfig?.id,
+  }];
+
+  const chain = conversation.fallbackProviders ?? settings?.fallbackProviders ?? [];
+  for (const entry of chain) {
+    const { provider, model } = parseFallbackEntry(entry);
+    const config = selectProviderConfig(providerConfigs, provider);
+
+    const hasCredentials = provider === "openai"
+      || (provider === "openai-compatible" ? !!config?.baseUrl : !!config?.apiKey);
+    if (!hasCredentials) continue;
+
+    const fallbackModel = model
+      || (settings?.defaultTextProvider === provider ? settings.defaultTextModel : undefined)
+      || config?.models?.[0]
+      || getAvailableModels(provider)[0];
+    if (!fallbackModel) continue;
+
+    if (targets.some(t => t.provider === provider && t.model === fallbackModel)) continue;
+
+    targets.push({
+      provider,
+      model: fallbackModel,
+      apiKey: config?.apiKey || undefined,
+      baseUrl: config?.baseUrl || undefined,
+      providerConfigId: config?.id,
+    });
+  }
+
+  const checks = new Map<string, Promise<string[]>>();
+  const withinBudget: LLMTarget[] = [];
+  const budgetWarnings = new Set<string>();
+  let budgetError: unknown;
+  for (const target of targets) {
+    if (!checks.has(target.provider)) {
+      checks.set(target.provider, enforceBudgets(user, target.provider));
+    }
+    try {
+      (await checks.get(target.provider)!).forEach(warning => budgetWarnings.add(warning));
+      withinBudget.push(target);
+    } catch (error) {
+      if (!(error instanceof TRPCError && error.code === "TOO_MANY_REQUESTS")) throw error;
+      budgetError ??= error;
+    }
+  }
+  if (withinBudget.length === 0) throw budgetError;
+
+  return { targets: withinBudget, budgetWarnings: Array.from(budgetWarnings) };
+}
+
+/**
+ * Save the user's message and resolve everything needed to ask the model:
+ * providers to try, their keys and the full prompt including history.
+ * Nothing is saved when every provider is over budget.
+ *
+ * An edit saves the new text alongside the original message and a regenerate
+ * moves the active branch back to the prompt, so in both cases the reply
+ * becomes a new version next to the previous one.
+ */
+export async function prepareChatTurn(
+  user: User,
+  conversation: Conversation,
+  request: ChatRequest
+): Promise<ChatTurn> {
+  const [settings, providerConfigs] = await Promise.all([
+    db.getUserSettings(user.id),
+    db.getUserProviderConfigs(user.id),
+  ]);
+  const temperature = (conversation.temperature || 70) / 100;
+  const { targets, budgetWarnings } = await resolveTargets(
+    user,
+    request.override
+      ? { ...conversation, llmProvider: request.override.provider, llmModel: request.override.model }
+      : conversation,
+    settings,
+    providerConfigs
+  );
+
+  // Get conversation history
+  const thread = await db.getMessageThread(conversation.id, conversation.activeLeafId);
+  let history = thread;
+  let message: string;
+
+  if (request.regenerateMessageId !== undefined) {
+    const index = thread.findIndex(m => m.id === request.regenerateMessageId && m.role === "assistant");
+    // The reply may follow tool calls, so answer again from the prompt itself
+    const promptIndex = thread.slice(0, index).map(m => m.role).lastIndexOf("user");
+    if (index === -1 || promptIndex === -1) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Message not found" });
+    }
+
+    history = thread.slice(0, promptIndex);
+    message = thread[promptIndex].content;
+    await db.setActiveLeaf(conversation.id, thread[promptIndex].id);
+  } else {
+    if (!request.message) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Message is required" });
+    }
+    message = request.message;
+
+    let parentId: number | null | undefined;
+    if (request.editMessageId !== undefined) {
+      const index = thread.findIndex(m => m.id === request.editMessageId && m.role === "user");
+      if (index === -1) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Message not found" });
+      }
+      history = thread.slice(0, index);
+      parentId = thread[index].parentId;
+    }
+
+    // Save user message
+    await db.createMessage({
+      conversationId: conversation.id,
+      parentId,
+      role: "user",
+      content: message,
+      audioUrl: request.audioUrl,
+    });
+  }
+
+  // Replies spoken by Hume can carry tone tags for it to act out
+  let systemPrompt = conversation.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+  const speaksWithHume = settings?.defaultTtsProvider === "hume"
+    && !!selectProviderConfig(providerConfigs, "hume")?.apiKey;
+  if (speaksWithHume) {
+    systemPrompt += `\n\n${TONE_INSTRUCTIONS}`;
+  }
+
+  // Build messages for AI, summarizing older history if it no longer fits
+  const messages = await buildContext({
+    conversation,
+    history,
+    systemPrompt,
+    userMessage: message,
+    targets,
+    tools: getToolDefinitions(),
+    replyTokens: MAX_REPLY_TOKENS,
+  });
+
+  return { targets, temperature, messages, budgetWarnings };
+}
+
+export type AssistantEvent =
+  | { type: "delta"; content: string }
+  | { type: "tool_call"; messageId: number; toolCalls: ToolCall[] }
+  | { type: "tool_result"; messageId: number; toolCallId: string; name: string; content: string };
+
+export interface AssistantReply {
+  content: string;
+  tokenCount: number;
+  /** Estimated USD cost of every round of the turn */
+  cost: number;
+  /** Provider, model and key that actually answered, after any fallback */
+  provider: string;
+  model: string;
+  providerConfigId?: number;
+}
+
+/**
+ * Run the model with the registered tools until it answers in text.
+ * Every tool call and tool result is saved as a message so the transcript
+ * shows what ran; the final text reply is left for the caller to save.
+ */
+export async function* runAssistantTurn(params: {
+  user: User;
+  conversationId: number;
+  turn: ChatTurn;
+  signal?: AbortSignal;
+}): AsyncGenerator<AssistantEvent, AssistantReply> {
+  const { user, conversationId, turn, signal } = params;
+  const tools = getToolDefinitions();
+  const messages = [...turn.messages];
+  let tokenCount = 0;
+  let cost = 0;
+
+  for (let round = 1; ; round++) {
+    const allowTools = tools.length > 0 && round < MAX_TOOL_ROUNDS;
+    let content = "";
+    let toolCalls: ToolCall[] | undefined;
+    let usage: LLMUsage | undefined;
+
+    const stream = streamLLMWithFallback(
+      turn.targets,
+      target => ({
+        messages,
+        provider: target.provider,
+        model: target.model,
+        apiKey: target.apiKey,
+        baseUrl: target.baseUrl,
+        temperature: turn.temperature,
+        maxTokens: MAX_REPLY_TOKENS,
+        tools: tools.length > 0 && supportsTools(target.provider) ? tools : undefined,
+        toolChoice: allowTools ? undefined : "none",
+      }),
+      signal
+    );
+
+    let step = await stream.next();
+    while (!step.done) {
+      const chunk = step.value;
+      if (chunk.type === "delta") {
+        content += chunk.content;
+        yield chunk;
+      } else {
+        toolCalls = chunk.toolCalls;
+        usage = chunk.usage;
+        tokenCount += chunk.usage?.total_tokens || 0;
+      }
+      step = await stream.next();
+    }
+    const target = step.value;
+    if (usage) cost += estimateCost(target.provider, target.model, usage);
+
+    if (!allowTools || !toolCalls?.length) {
+      return {
+        content,
+        tokenCount,
+        cost,
+        provider: target.provider,
+        model: target.model,
+        providerConfigId: target.providerConfigId,
+      };
+    }
+
+    const callMessageId = await db.createMessage({
+      conversationId,
+      role: "assistant",
+      content,
+      provider: target.provider,
+      model: target.model,
+      toolCalls,
+    });
+    messages.push({ role: "assistant", content, toolCalls });
+    yield { type: "tool_call", messageId: callMessageId, toolCalls };
+
+    for (const call of toolCalls) {
+      const result = await executeToolCall(call, { user, conversationId });
+
+      const resultMessageId = await db.createMessage({
+        conversationId,
+        role: "tool",
+        content: result,
+        toolCallId: call.id,
+        toolName: call.function.name,
+      });
+      messages.push({ role: "tool", content: result, toolCallId: call.id, name: call.function.name });
+      yield {
+        type: "tool_result",
+        messageId: resultMessageId,
+        toolCallId: call.id,
+        name: call.function.name,
+        content: result,
+      };
+    }
+  }
+}
+
+/**
+ * Persist the assistant's reply and record its token usage
+ */
+export async function saveAssistantReply(params: {
+  userId: number;
+  conversationId: number;
+  content: string;
+  provider: string;
+  model: string;
+  tokenCount: number;
+  /** Estimated USD cost */
+  cost?: number;
+  providerConfigId?: number;
+}): Promise<number> {
+  const messageId = await db.createMessage({
+    conversationId: params.conversationId,
+    role: "assistant",
+    content: params.content,
+    provider: params.provider,
+    model: params.model,
+    tokenCount: params.tokenCount,
+  });
+
+  // Track usage
+  await db.trackUsage({
+    userId: params.userId,
+    date: new Date(),
+    provider: params.provider,
+    requestType: "text",
+    tokenCount: params.tokenCount,
+    costMicros: toCostMicros(params.cost),
+    providerConfigId: params.providerConfigId,
+  });
+
+  return messageId;
+}
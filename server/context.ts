@@ -0,0 +1,240 @@
+import type { Conversation, Message } from "../drizzle/schema";
+import * as db from "./db";
+import { estimateCost, getModelInfo, toCostMicros } from "./providers/catalog";
+import { streamLLMWithFallback } from "./providers/fallback";
+import type { LLMTarget } from "./providers/fallback";
+import type { LLMMessage, LLMUsage, Tool } from "./providers/llm";
+
+/** Used when a model's context window isn't known, e.g. the legacy gpt-4 default */
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * History is summarized past this many tokens even on long-context models,
+ * since every turn re-sends (and pays for) the whole prompt
+ */
+const HISTORY_TOKEN_CAP = 24000;
+
+/**
+ * Share of the history budget kept verbatim after summarizing, so the next
+ * few turns fit without summarizing again
+ */
+const RECENT_SHARE = 0.5;
+
+/** Role markers and separators added around each message */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const SUMMARY_MAX_TOKENS = 800;
+
+const SUMMARY_PROMPT = "You maintain a running summary of a conversation between a user and an AI assistant. Merge the previous summary (if any) with the new messages into one updated summary. Keep names, facts, decisions, preferences and open questions; drop small talk. Write in the third person, at most 300 words.";
+
+// ============ Token Counting ============
+
+/**
+ * Average characters per token for each provider's tokenizer on English text.
+ * Claude's tokenizer produces noticeably more tokens than OpenAI's o200k.
+ */
+function charsPerToken(provider: string): number {
+  switch (provider.toLowerCase()) {
+    case "anthropic":
+    case "claude":
+      return 3.5;
+    case "mistral":
+      return 3.7;
+    default:
+      return 4;
+  }
+}
+
+/**
+ * Approximate token count of a string for a provider, rounded up so budgets err on the safe side
+ */
+export function estimateTokens(text: string, provider: string): number {
+  return Math.ceil(text.length / charsPerToken(provider));
+}
+
+export function countMessageTokens(message: LLMMessage, provider: string): number {
+  let text = message.content;
+  if (message.toolCalls) text += JSON.stringify(message.toolCalls);
+  return estimateTokens(text, provider) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Tokens available for the prompt across every target in the chain: the
+ * smallest context window minus the reply and the tool definitions
+ */
+function promptBudget(targets: LLMTarget[], tools: Tool[], replyTokens: number): number {
+  const budgets = targets.map(target => {
+    const window = getModelInfo(target.provider, target.model).contextWindow || DEFAULT_CONTEXT_WINDOW;
+    const toolTokens = tools.length > 0 ? estimateTokens(JSON.stringify(tools), target.provider) : 0;
+    return window - replyTokens - toolTokens;
+  });
+  return Math.min(HISTORY_TOKEN_CAP, ...budgets);
+}
+
+/**
+ * Token counts use the provider whose tokenizer is the least compact
+ */
+function countingProvider(targets: LLMTarget[]): string {
+  return targets.reduce(
+    (worst, t) => (charsPerToken(t.provider) < charsPerToken(worst) ? t.provider : worst),
+    targets[0].provider
+  );
+}
+
+// ============ Context Building ============
+
+export function toLLMMessage(message: Message): LLMMessage {
+  return {
+    role: message.role,
+    content: message.content,
+    toolCalls: message.toolCalls ?? undefined,
+    toolCallId: message.toolCallId ?? undefined,
+    name: message.toolName ?? undefined,
+  };
+}
+
+function withSummary(systemPrompt: string, summary: string | null): LLMMessage {
+  return {
+    role: "system",
+    // Anthropic takes a single system prompt, so the summary is folded into it
+    content: summary
+      ? `${systemPrompt}\n\nSummary of the earlier conversation:\n${summary}`
+      : systemPrompt,
+  };
+}
+
+/**
+ * Index of the first message to keep verbatim, walking back from the newest
+ * until `budget` is used up. Always starts on a user message: a tool result
+ * would be orphaned from the assistant message that requested it, and
+ * Anthropic rejects conversations that don't open with the user.
+ */
+function findRecentStart(history: LLMMessage[], budget: number, provider: string): number {
+  let used = 0;
+  let start = history.length;
+  while (start > 0) {
+    const tokens = countMessageTokens(history[start - 1], provider);
+    if (used + tokens > budget) break;
+    used += tokens;
+    start--;
+  }
+  while (start < history.length && history[start].role !== "user") start++;
+  return start;
+}
+
+/**
+ * Summarize older messages with the conversation's own chain, recording the
+ * tokens like any other request so budgets count them
+ */
+async function summarize(
+  userId: number,
+  targets: LLMTarget[],
+  previousSummary: string | null,
+  messages: LLMMessage[]
+): Promise<string> {
+  const transcript = messages
+    .filter(m => m.content)
+    .map(m => `${m.role === "tool" ? `Tool (${m.name})` : m.role}: ${m.content}`)
+    .join("\n\n");
+
+  const stream = streamLLMWithFallback(targets, target => ({
+    messages: [
+      { role: "system", content: SUMMARY_PROMPT },
+      {
+        role: "user",
+        content: `Previous summary:\n${previousSummary || "(none)"}\n\nNew messages:\n${transcript}`,
+      },
+    ],
+    provider: target.provider,
+    model: target.model,
+    apiKey: target.apiKey,
+    baseUrl: target.baseUrl,
+    temperature: 0.2,
+    maxTokens: SUMMARY_MAX_TOKENS,
+  }));
+
+  let summary = "";
+  let usage: LLMUsage | undefined;
+  let step = await stream.next();
+  while (!step.done) {
+    if (step.value.type === "delta") {
+      summary += step.value.content;
+    } else {
+      usage = step.value.usage;
+    }
+    step = await stream.next();
+  }
+
+  const target = step.value;
+  await db.trackUsage({
+    userId,
+    date: new Date(),
+    provider: target.provider,
+    requestType: "text",
+    tokenCount: usage?.total_tokens || 0,
+    costMicros: toCostMicros(usage && estimateCost(target.provider, target.model, usage)),
+    providerConfigId: target.providerConfigId,
+  });
+
+  return summary.trim();
+}
+
+/**
+ * Build the prompt for a turn so it fits every model in the fallback chain.
+ * Messages already folded into the conversation's summary are skipped; when
+ * the rest is still over budget, the oldest of them are summarized (together
+ * with the previous summary) and the new summary is saved on the conversation.
+ * If summarizing fails, the oldest messages are dropped for this turn instead.
+ */
+export async function buildContext(params: {
+  conversation: Conversation;
+  history: Message[];
+  systemPrompt: string;
+  userMessage: string;
+  targets: LLMTarget[];
+  tools: Tool[];
+  replyTokens: number;
+}): Promise<LLMMessage[]> {
+  const { conversation, targets } = params;
+  const provider = countingProvider(targets);
+
+  // The summary belongs to one branch; after switching to another it no longer applies
+  const summaryApplies = params.history.some(m => m.id === conversation.summarizedThroughMessageId);
+  const previousSummary = summaryApplies ? conversation.summary : null;
+  const summarizedThrough = summaryApplies ? conversation.summarizedThroughMessageId! : 0;
+
+  const pending = params.history.filter(m => m.id > summarizedThrough);
+  const history = pending.map(toLLMMessage);
+  const userMessage: LLMMessage = { role: "user", content: params.userMessage };
+
+  const budget = promptBudget(targets, params.tools, params.replyTokens);
+  const fixedTokens = (summary: string | null) =>
+    countMessageTokens(withSummary(params.systemPrompt, summary), provider) +
+    countMessageTokens(userMessage, provider);
+
+  const historyTokens = history.reduce((sum, m) => sum + countMessageTokens(m, provider), 0);
+  if (fixedTokens(previousSummary) + historyTokens <= budget) {
+    return [withSummary(params.systemPrompt, previousSummary), ...history, userMessage];
+  }
+
+  // Reserve room for the summary that will replace the older messages
+  const recentBudget = Math.max(0, budget - fixedTokens(null) - SUMMARY_MAX_TOKENS) * RECENT_SHARE;
+  const start = findRecentStart(history, recentBudget, provider);
+  const older = history.slice(0, start);
+  const recent = history.slice(start);
+
+  let summary = previousSummary;
+  if (older.length > 0) {
+    try {
+      summary = await summarize(conversation.userId, targets, previousSummary, older);
+      await db.updateConversation(conversation.id, conversation.userId, {
+        summary,
+        summarizedThroughMessageId: pending[start - 1].id,
+      });
+    } catch (error) {
+      console.warn(`[Context] Failed to summarize conversation ${conversation.id}, dropping older messages:`, error);
+    }
+  }
+
+  return [withSummary(params.systemPrompt, summary), ...recent, userMessage];
+}
@@ -1,4 +1,5 @@
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, gte, lte, like, inArray, sql } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import { 
   InsertUser, 
@@ -8,15 +9,24 @@ import {
   userSettings, 
   providerConfigs, 
   voiceProfiles,
+  pronunciations,
   usageStats,
+  ttsCache,
+  budgets,
   InsertConversation,
   InsertMessage,
   InsertUserSettings,
   InsertProviderConfig,
   InsertVoiceProfile,
-  InsertUsageStats
+  InsertPronunciation,
+  InsertUsageStats,
+  InsertTtsCacheEntry,
+  InsertBudget,
+  Message
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import { decryptApiKey, encryptApiKey } from "./secrets";
+import type { StoredApiKey } from "./secrets";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -132,37 +142,71 @@ export async function getConversationById(id: number) {
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function updateConversation(id: number, data: Partial<InsertConversation>) {
+export async function updateConversation(id: number, userId: number, data: Partial<InsertConversation>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.update(conversations).set(data).where(eq(conversations.id, id));
+  await db.update(conversations)
+    .set(data)
+    .where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
 }
 
-export async function deleteConversation(id: number) {
+export async function deleteConversation(id: number, userId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
   // Archive instead of delete
-  await db.update(conversations).set({ isArchived: true }).where(eq(conversations.id, id));
+  await db.update(conversations)
+    .set({ isArchived: true })
+    .where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
 }
 
 // ============ Message Management ============
 
+/**
+ * Insert a message and make it the conversation's active leaf. Without an
+ * explicit parentId the message continues the active branch.
+ */
 export async function createMessage(data: InsertMessage) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  const result = await db.insert(messages).values(data);
+  let parentId = data.parentId;
+  if (parentId === undefined) {
+    const [conversation] = await db.select({ activeLeafId: conversations.activeLeafId })
+      .from(conversations)
+      .where(eq(conversations.id, data.conversationId))
+      .limit(1);
+    parentId = conversation?.activeLeafId ?? null;
+  }
+
+  const result = await db.insert(messages).values({ ...data, parentId });
+  const id = result[0].insertId;
   
-  // Update conversation's lastMessageAt
+  // Update conversation's lastMessageAt and active branch
   await db.update(conversations)
-    .set({ lastMessageAt: new Date() })
+    .set({ lastMessageAt: new Date(), activeLeafId: id })
     .where(eq(conversations.id, data.conversationId));
   
-  return result[0].insertId;
+  return id;
+}
+
+export async function updateMessage(id: number, userId: number, data: Partial<InsertMessage>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Messages belong to users through their conversation
+  const ownConversations = db.select({ id: conversations.id })
+    .from(conversations)
+    .where(eq(conversations.userId, userId));
+  await db.update(messages)
+    .set(data)
+    .where(and(eq(messages.id, id), inArray(messages.conversationId, ownConversations)));
 }
 
+/**
+ * Every message in a conversation across all branches
+ */
 export async function getConversationMessages(conversationId: number) {
   const db = await getDb();
   if (!db) return [];
@@ -170,14 +214,196 @@ export async function getConversationMessages(conversationId: number) {
   return db.select()
     .from(messages)
     .where(eq(messages.conversationId, conversationId))
-    .orderBy(messages.createdAt);
+    .orderBy(messages.createdAt, messages.id);
+}
+
+/**
+ * Copy messages into another conversation as a single thread, keeping their
+ * original timestamps. Returns the new ids in the same order.
+ */
+export async function copyMessages(conversationId: number, source: Message[]) {
+  const ids: number[] = [];
+  let parentId: number | null = null;
+  for (const message of source) {
+    parentId = await createMessage({
+      conversationId,
+      parentId,
+      role: message.role,
+      content: message.content,
+      audioUrl: message.audioUrl,
+      createdAt: message.createdAt,
+      tokenCount: message.tokenCount,
+      provider: message.provider,
+      model: message.model,
+      toolCalls: message.toolCalls,
+      toolCallId: message.toolCallId,
+      toolName: message.toolName,
+    });
+    ids.push(parentId);
+  }
+  return ids;
+}
+
+export async function getMessageById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+  
+  const result = await db.select().from(messages).where(eq(messages.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export type ThreadMessage = Message & {
+  /** Ids of this message's alternate versions including itself, oldest first */
+  siblingIds: number[];
+};
+
+/**
+ * The active thread of a conversation, oldest first: the chain of parents
+ * ending at `leafId`, with each message's alternate versions
+ */
+export async function getMessageThread(conversationId: number, leafId: number | null): Promise<ThreadMessage[]> {
+  const all = await getConversationMessages(conversationId);
+  const byId = new Map(all.map(m => [m.id, m]));
+
+  const thread: Message[] = [];
+  for (let m = leafId ? byId.get(leafId) : undefined; m; m = m.parentId ? byId.get(m.parentId) : undefined) {
+    thread.unshift(m);
+  }
+
+  return thread.map(message => ({
+    ...message,
+    siblingIds: all.filter(m => m.parentId === message.parentId).map(m => m.id).sort((a, b) => a - b),
+  }));
+}
+
+/**
+ * Show the branch containing `messageId`, following the newest reply at each
+ * step down to its last message
+ */
+export async function setActiveBranch(conversationId: number, messageId: number) {
+  const all = await getConversationMessages(conversationId);
+  let leafId = messageId;
+  for (;;) {
+    const children = all.filter(m => m.parentId === leafId);
+    if (children.length === 0) break;
+    leafId = Math.max(...children.map(m => m.id));
+  }
+
+  await setActiveLeaf(conversationId, leafId);
+  return leafId;
 }
 
-export async function deleteMessage(id: number) {
+export async function setActiveLeaf(conversationId: number, messageId: number | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(conversations).set({ activeLeafId: messageId }).where(eq(conversations.id, conversationId));
+}
+
+/**
+ * Delete a message, splicing its replies onto its parent so the thread stays connected
+ */
+export async function deleteMessage(id: number, userId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.delete(messages).where(eq(messages.id, id));
+  const [row] = await db.select({ message: messages })
+    .from(messages)
+    .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+    .where(and(eq(messages.id, id), eq(conversations.userId, userId)))
+    .limit(1);
+  if (!row) return;
+  const { message } = row;
+
+  await db.update(messages)
+    .set({ parentId: message.parentId })
+    .where(and(eq(messages.parentId, id), eq(messages.conversationId, message.conversationId)));
+  await db.update(conversations)
+    .set({ activeLeafId: message.parentId })
+    .where(and(
+      eq(conversations.id, message.conversationId),
+      eq(conversations.userId, userId),
+      eq(conversations.activeLeafId, id)
+    ));
+  await db.delete(messages).where(and(eq(messages.id, id), eq(messages.conversationId, message.conversationId)));
+}
+
+// ============ Search ============
+
+export interface MessageSearchFilters {
+  from?: Date;
+  to?: Date;
+  provider?: string;
+  role?: "user" | "assistant";
+  conversationId?: number;
+}
+
+/**
+ * Escape LIKE wildcards so terms match literally
+ */
+function likePattern(term: string) {
+  return `%${term.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+}
+
+/**
+ * User and assistant messages in the user's conversations containing every
+ * term, newest first. Fetches one extra row so callers can tell if there are more.
+ */
+export async function searchMessages(
+  userId: number,
+  terms: string[],
+  filters: MessageSearchFilters,
+  limit: number,
+  offset: number
+) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions: SQL[] = [
+    eq(conversations.userId, userId),
+    eq(conversations.isArchived, false),
+    inArray(messages.role, filters.role ? [filters.role] : ["user", "assistant"]),
+    ...terms.map(term => like(messages.content, likePattern(term))),
+  ];
+  if (filters.from) conditions.push(gte(messages.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(messages.createdAt, filters.to));
+  if (filters.provider) conditions.push(eq(messages.provider, filters.provider));
+  if (filters.conversationId) conditions.push(eq(messages.conversationId, filters.conversationId));
+
+  return db.select({
+    id: messages.id,
+    conversationId: messages.conversationId,
+    conversationTitle: conversations.title,
+    role: messages.role,
+    content: messages.content,
+    provider: messages.provider,
+    model: messages.model,
+    createdAt: messages.createdAt,
+  })
+    .from(messages)
+    .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+    .where(and(...conditions))
+    .orderBy(desc(messages.createdAt), desc(messages.id))
+    .limit(limit + 1)
+    .offset(offset);
+}
+
+/**
+ * The user's conversations whose title contains every term
+ */
+export async function searchConversationTitles(userId: number, terms: string[], limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(conversations)
+    .where(and(
+      eq(conversations.userId, userId),
+      eq(conversations.isArchived, false),
+      ...terms.map(term => like(conversations.title, likePattern(term)))
+    ))
+    .orderBy(desc(conversations.updatedAt))
+    .limit(limit);
 }
 
 // ============ User Settings ============
@@ -207,35 +433,89 @@ export async function updateUserSettings(userId: number, data: Partial<InsertUse
 
 // ============ Provider Configurations ============
 
+/** The user's provider configs with their API keys decrypted */
 export async function getUserProviderConfigs(userId: number) {
   const db = await getDb();
   if (!db) return [];
   
-  return db.select()
+  const rows = await db.select()
     .from(providerConfigs)
     .where(eq(providerConfigs.userId, userId));
+
+  return rows.map(row => {
+    try {
+      return { ...row, apiKey: decryptApiKey(row) };
+    } catch (error) {
+      // e.g. its master key was retired; treat the provider as having no key
+      console.error(`[Database] Failed to decrypt API key of provider config ${row.id}:`, error);
+      return { ...row, apiKey: "" };
+    }
+  });
 }
 
 export async function createProviderConfig(data: InsertProviderConfig) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  const result = await db.insert(providerConfigs).values(data);
+  // If this is set as default, unset the provider's other defaults
+  if (data.isDefault) {
+    await db.update(providerConfigs)
+      .set({ isDefault: false })
+      .where(and(eq(providerConfigs.userId, data.userId), eq(providerConfigs.provider, data.provider)));
+  }
+
+  const result = await db.insert(providerConfigs).values({ ...data, ...encryptApiKey(data.apiKey) });
   return result[0].insertId;
 }
 
-export async function updateProviderConfig(id: number, data: Partial<InsertProviderConfig>) {
+export async function updateProviderConfig(id: number, userId: number, data: Partial<InsertProviderConfig>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.update(providerConfigs).set(data).where(eq(providerConfigs.id, id));
+  const values = data.apiKey === undefined ? data : { ...data, ...encryptApiKey(data.apiKey) };
+  await db.update(providerConfigs)
+    .set(values)
+    .where(and(eq(providerConfigs.id, id), eq(providerConfigs.userId, userId)));
+}
+
+export async function setDefaultProviderConfig(userId: number, provider: string, id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // Only one default key per provider
+  await db.update(providerConfigs)
+    .set({ isDefault: false })
+    .where(and(eq(providerConfigs.userId, userId), eq(providerConfigs.provider, provider)));
+  await db.update(providerConfigs)
+    .set({ isDefault: true })
+    .where(and(eq(providerConfigs.id, id), eq(providerConfigs.userId, userId)));
+}
+
+/** Every stored API key as saved, encrypted or not, for rotation */
+export async function getStoredApiKeys() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.select({
+    id: providerConfigs.id,
+    apiKey: providerConfigs.apiKey,
+    dataKey: providerConfigs.dataKey,
+    keyVersion: providerConfigs.keyVersion,
+  }).from(providerConfigs);
 }
 
-export async function deleteProviderConfig(id: number) {
+export async function saveStoredApiKey(id: number, stored: StoredApiKey) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(providerConfigs).set(stored).where(eq(providerConfigs.id, id));
+}
+
+export async function deleteProviderConfig(id: number, userId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.delete(providerConfigs).where(eq(providerConfigs.id, id));
+  await db.delete(providerConfigs).where(and(eq(providerConfigs.id, id), eq(providerConfigs.userId, userId)));
 }
 
 // ============ Voice Profiles ============
@@ -265,11 +545,72 @@ export async function createVoiceProfile(data: InsertVoiceProfile) {
   return result[0].insertId;
 }
 
-export async function deleteVoiceProfile(id: number) {
+export async function updateVoiceProfile(id: number, userId: number, data: Partial<InsertVoiceProfile>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // If this becomes the default, unset other defaults
+  if (data.isDefault) {
+    await db.update(voiceProfiles)
+      .set({ isDefault: false })
+      .where(eq(voiceProfiles.userId, userId));
+  }
+
+  await db.update(voiceProfiles).set(data).where(and(eq(voiceProfiles.id, id), eq(voiceProfiles.userId, userId)));
+}
+
+export async function deleteVoiceProfile(id: number, userId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  await db.delete(voiceProfiles).where(eq(voiceProfiles.id, id));
+  await db.delete(voiceProfiles).where(and(eq(voiceProfiles.id, id), eq(voiceProfiles.userId, userId)));
+}
+
+// ============ Pronunciations ============
+
+export async function getUserPronunciations(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(pronunciations)
+    .where(eq(pronunciations.userId, userId))
+    .orderBy(pronunciations.term);
+}
+
+export async function createPronunciation(data: InsertPronunciation) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(pronunciations).values(data);
+  return result[0].insertId;
+}
+
+export async function deletePronunciation(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(pronunciations).where(and(eq(pronunciations.id, id), eq(pronunciations.userId, userId)));
+}
+
+// ============ TTS Cache ============
+
+export async function getTtsCacheEntry(userId: number, contentHash: string) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(ttsCache)
+    .where(and(eq(ttsCache.userId, userId), eq(ttsCache.contentHash, contentHash)))
+    .limit(1);
+  return result[0];
+}
+
+export async function saveTtsCacheEntry(data: InsertTtsCacheEntry) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  // The same audio may have been stored concurrently; either copy will do
+  await db.insert(ttsCache).values(data).onDuplicateKeyUpdate({ set: { audioUrl: data.audioUrl } });
 }
 
 // ============ Usage Stats ============
@@ -292,3 +633,61 @@ export async function getUserUsageStats(userId: number, startDate?: Date, endDat
   
   return query.orderBy(desc(usageStats.date));
 }
+
+/** Tokens, audio seconds and estimated cost used since a date, by one provider or all */
+export async function getUsageTotals(userId: number, since: Date, provider?: string | null) {
+  const db = await getDb();
+  if (!db) return { tokens: 0, audioSeconds: 0, costMicros: 0 };
+
+  const conditions = [eq(usageStats.userId, userId), gte(usageStats.date, since)];
+  if (provider) conditions.push(eq(usageStats.provider, provider));
+
+  const [totals] = await db.select({
+    tokens: sql<string | null>`sum(${usageStats.tokenCount})`,
+    audioSeconds: sql<string | null>`sum(${usageStats.audioSeconds})`,
+    costMicros: sql<string | null>`sum(${usageStats.costMicros})`,
+  })
+    .from(usageStats)
+    .where(and(...conditions));
+
+  // MySQL returns SUM() as a decimal string
+  return {
+    tokens: Number(totals?.tokens ?? 0),
+    audioSeconds: Number(totals?.audioSeconds ?? 0),
+    costMicros: Number(totals?.costMicros ?? 0),
+  };
+}
+
+// ============ Budgets ============
+
+export async function getUserBudgets(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(budgets)
+    .where(eq(budgets.userId, userId))
+    .orderBy(budgets.createdAt);
+}
+
+export async function createBudget(data: InsertBudget) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(budgets).values(data);
+  return result[0].insertId;
+}
+
+export async function updateBudget(id: number, userId: number, data: Partial<InsertBudget>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(budgets).set(data).where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
+}
+
+export async function deleteBudget(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(budgets).where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
+}
@@ -0,0 +1,189 @@
+import { EventEmitter } from "events";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebSocket } from "ws";
+import type { TrpcContext } from "./_core/context";
+import type { Conversation, User } from "../drizzle/schema";
+import type { VoiceServerMessage } from "@shared/voice";
+
+// One user's data, looked up by another. Reads filter by user like the real
+// helpers; writes are spies that must never be reached.
+const store = vi.hoisted(() => ({
+  conversation: {
+    id: 10,
+    userId: 1,
+    title: "Owner's",
+    systemPrompt: null,
+    llmProvider: "openrouter",
+    llmModel: "gpt-4",
+    temperature: 70,
+    fallbackProviders: null,
+    providerConfigId: null,
+    summary: null,
+    summarizedThroughMessageId: null,
+    activeLeafId: 100,
+    parentConversationId: null,
+    forkedFromMessageId: null,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    lastMessageAt: null,
+    isArchived: false,
+  } satisfies Conversation,
+  message: { id: 100, conversationId: 10, parentId: null, role: "assistant", content: "Hello" },
+  providerConfig: { id: 20, userId: 1, provider: "openrouter", apiKey: "sk-owner", baseUrl: null, isActive: true, isDefault: true },
+  voiceProfile: { id: 30, userId: 1, name: "Owner's voice", provider: "elevenlabs", voiceId: "abc", isDefault: true },
+  pronunciation: { id: 40, userId: 1, term: "Kubernetes", alias: "koo-ber-net-eez", phoneme: null },
+  budget: { id: 50, userId: 1, provider: null, period: "monthly", metric: "tokens", amount: 100000 },
+}));
+
+vi.mock("./db", () => ({
+  getConversationById: vi.fn(async (id: number) => (id === store.conversation.id ? store.conversation : undefined)),
+  getMessageById: vi.fn(async (id: number) => (id === store.message.id ? store.message : undefined)),
+  getMessageThread: vi.fn(async () => [store.message]),
+  getUserProviderConfigs: vi.fn(async (userId: number) => (userId === store.providerConfig.userId ? [store.providerConfig] : [])),
+  getUserVoiceProfiles: vi.fn(async (userId: number) => (userId === store.voiceProfile.userId ? [store.voiceProfile] : [])),
+  getUserPronunciations: vi.fn(async (userId: number) => (userId === store.pronunciation.userId ? [store.pronunciation] : [])),
+  getUserBudgets: vi.fn(async (userId: number) => (userId === store.budget.userId ? [store.budget] : [])),
+  getUserSettings: vi.fn(async () => undefined),
+  createConversation: vi.fn(async () => 11),
+  updateConversation: vi.fn(),
+  deleteConversation: vi.fn(),
+  copyMessages: vi.fn(async () => []),
+  createMessage: vi.fn(async () => 101),
+  updateMessage: vi.fn(),
+  deleteMessage: vi.fn(),
+  setActiveBranch: vi.fn(),
+  setActiveLeaf: vi.fn(),
+  updateProviderConfig: vi.fn(),
+  setDefaultProviderConfig: vi.fn(),
+  deleteProviderConfig: vi.fn(),
+  updateVoiceProfile: vi.fn(),
+  deleteVoiceProfile: vi.fn(),
+  deletePronunciation: vi.fn(),
+  updateBudget: vi.fn(),
+  deleteBudget: vi.fn(),
+  trackUsage: vi.fn(),
+}));
+
+import * as db from "./db";
+import { appRouter } from "./routers";
+import { VoiceSession } from "./voice/session";
+
+const WRITES = [
+  "createConversation",
+  "updateConversation",
+  "deleteConversation",
+  "copyMessages",
+  "createMessage",
+  "updateMessage",
+  "deleteMessage",
+  "setActiveBranch",
+  "setActiveLeaf",
+  "updateProviderConfig",
+  "setDefaultProviderConfig",
+  "deleteProviderConfig",
+  "updateVoiceProfile",
+  "deleteVoiceProfile",
+  "deletePronunciation",
+  "updateBudget",
+  "deleteBudget",
+  "trackUsage",
+] as const;
+
+function userFor(userId: number) {
+  return { id: userId, openId: `user-${userId}`, name: null, email: null, role: "user" } as User;
+}
+
+function callerFor(userId: number) {
+  return appRouter.createCaller({
+    user: userFor(userId),
+    req: {} as TrpcContext["req"],
+    res: {} as TrpcContext["res"],
+  });
+}
+
+/** Run a subscription until it ends, so errors thrown inside it surface */
+async function drain(subscription: Promise<AsyncIterable<unknown>>) {
+  for await (const _event of await subscription) {
+    // Nothing to collect
+  }
+}
+
+type Caller = ReturnType<typeof callerFor>;
+
+const crossTenantCalls: [string, (caller: Caller) => Promise<unknown>][] = [
+  ["conversations.get", c => c.conversations.get({ id: store.conversation.id })],
+  ["conversations.update", c => c.conversations.update({ id: store.conversation.id, title: "Mine now" })],
+  ["conversations.fork", c => c.conversations.fork({ id: store.conversation.id, messageId: store.message.id })],
+  ["conversations.delete", c => c.conversations.delete({ id: store.conversation.id })],
+  ["messages.list", c => c.messages.list({ conversationId: store.conversation.id })],
+  ["messages.search", c => c.messages.search({ query: "Hello", conversationId: store.conversation.id })],
+  ["messages.switchVersion", c => c.messages.switchVersion({ messageId: store.message.id })],
+  ["messages.create", c => c.messages.create({ conversationId: store.conversation.id, role: "user", content: "Hi" })],
+  ["messages.delete", c => c.messages.delete({ id: store.message.id })],
+  ["chat.send", c => c.chat.send({ conversationId: store.conversation.id, message: "Hi" })],
+  ["chat.stream", c => drain(c.chat.stream({ conversationId: store.conversation.id, message: "Hi" }))],
+  ["voice.generateSpeech", c => c.voice.generateSpeech({ text: "Hello", messageId: store.message.id })],
+  ["voice.streamSpeech", c => drain(c.voice.streamSpeech({ text: "Hello", messageId: store.message.id }))],
+  ["providers.update", c => c.providers.update({ id: store.providerConfig.id, apiKey: "sk-intruder" })],
+  ["providers.setDefault", c => c.providers.setDefault({ id: store.providerConfig.id })],
+  ["providers.test", c => c.providers.test({ id: store.providerConfig.id })],
+  ["providers.delete", c => c.providers.delete({ id: store.providerConfig.id })],
+  ["voiceProfiles.update", c => c.voiceProfiles.update({ id: store.voiceProfile.id, name: "Mine now" })],
+  ["voiceProfiles.delete", c => c.voiceProfiles.delete({ id: store.voiceProfile.id })],
+  ["pronunciations.delete", c => c.pronunciations.delete({ id: store.pronunciation.id })],
+  ["budgets.delete", c => c.budgets.delete({ id: store.budget.id })],
+];
+
+describe("cross-tenant access", () => {
+  const owner = callerFor(1);
+  const intruder = callerFor(2);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each(crossTenantCalls)("%s refuses another user's data", async (_name, call) => {
+    await expect(call(intruder)).rejects.toMatchObject({ code: "NOT_FOUND" });
+    for (const write of WRITES) {
+      expect(db[write], write).not.toHaveBeenCalled();
+    }
+  });
+
+  it("refuses billing a conversation to another user's key", async () => {
+    const intruderConversation: Conversation = { ...store.conversation, id: 12, userId: 2 };
+    vi.mocked(db.getConversationById).mockResolvedValueOnce(intruderConversation);
+
+    await expect(
+      intruder.conversations.update({ id: intruderConversation.id, providerConfigId: store.providerConfig.id })
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.updateConversation).not.toHaveBeenCalled();
+  });
+
+  it("refuses a voice call in another user's conversation", async () => {
+    const sent: VoiceServerMessage[] = [];
+    const socket = Object.assign(new EventEmitter(), {
+      OPEN: 1,
+      readyState: 1,
+      send: (data: string) => sent.push(JSON.parse(data)),
+    });
+    new VoiceSession(socket as unknown as WebSocket, userFor(2));
+
+    socket.emit("message", Buffer.from(JSON.stringify({ type: "start", conversationId: store.conversation.id })), false);
+
+    await vi.waitFor(() => expect(sent).toContainEqual({ type: "error", message: "Conversation not found" }));
+    expect(sent).not.toContainEqual({ type: "ready" });
+    expect(db.getUserSettings).not.toHaveBeenCalled();
+  });
+
+  it("still lets the owner act on their own data", async () => {
+    await owner.messages.delete({ id: store.message.id });
+    await owner.providers.delete({ id: store.providerConfig.id });
+    await owner.voiceProfiles.delete({ id: store.voiceProfile.id });
+    await owner.pronunciations.delete({ id: store.pronunciation.id });
+
+    expect(db.deleteMessage).toHaveBeenCalledWith(store.message.id, 1);
+    expect(db.deleteProviderConfig).toHaveBeenCalledWith(store.providerConfig.id, 1);
+    expect(db.deleteVoiceProfile).toHaveBeenCalledWith(store.voiceProfile.id, 1);
+    expect(db.deletePronunciation).toHaveBeenCalledWith(store.pronunciation.id, 1);
+  });
+});
@@ -0,0 +1,59 @@
+import { TRPCError } from "@trpc/server";
+import * as db from "./db";
+
+/**
+ * Ownership checks for procedures that act on a row by id. Each loads the row
+ * and throws NOT_FOUND unless it belongs to the user, so another user's ids
+ * look exactly like ids that don't exist. Messages belong to whoever owns
+ * their conversation.
+ */
+
+export async function requireConversation(userId: number, id: number) {
+  const conversation = await db.getConversationById(id);
+  if (!conversation || conversation.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND" });
+  }
+  return conversation;
+}
+
+export async function requireMessage(userId: number, id: number) {
+  const message = await db.getMessageById(id);
+  const conversation = message && await db.getConversationById(message.conversationId);
+  if (!message || !conversation || conversation.userId !== userId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Message not found" });
+  }
+  return { message, conversation };
+}
+
+/** The provider config with its API key decrypted */
+export async function requireProviderConfig(userId: number, id: number) {
+  const config = (await db.getUserProviderConfigs(userId)).find(c => c.id === id);
+  if (!config) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Provider not found" });
+  }
+  return config;
+}
+
+export async function requireVoiceProfile(userId: number, id: number) {
+  const profile = (await db.getUserVoiceProfiles(userId)).find(p => p.id === id);
+  if (!profile) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Voice profile not found" });
+  }
+  return profile;
+}
+
+export async function requirePronunciation(userId: number, id: number) {
+  const entry = (await db.getUserPronunciations(userId)).find(p => p.id === id);
+  if (!entry) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Pronunciation not found" });
+  }
+  return entry;
+}
+
+export async function requireBudget(userId: number, id: number) {
+  const budget = (await db.getUserBudgets(userId)).find(b => b.id === id);
+  if (!budget) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Budget not found" });
+  }
+  return budget;
+}
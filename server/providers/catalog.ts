@@ -0,0 +1,294 @@
+import { builtInModel, getAvailableModels, getProviderName, listOpenAICompatibleModels } from "./llm";
+import type { LLMUsage } from "./llm";
+
+export interface ModelInfo {
+  id: string;
+  name?: string;
+  contextWindow?: number;
+  /** USD per prompt token */
+  inputPrice?: number;
+  /** USD per completion token */
+  outputPrice?: number;
+  supportsVision?: boolean;
+  supportsTools?: boolean;
+}
+
+export interface ProviderCatalog {
+  id: string;
+  name: string;
+  models: ModelInfo[];
+  /** "live" when the list came from the provider's API, "static" for the built-in fallback */
+  source: "live" | "static";
+  error?: string;
+}
+
+export interface CatalogCredentials {
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+/**
+ * LLM providers shown in the model pickers, in display order
+ */
+export const CATALOG_PROVIDERS = ["openai", "openrouter", "mistral", "anthropic", "openai-compatible"] as const;
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 8000;
+
+const cache = new Map<string, { expiresAt: number; catalog: ProviderCatalog }>();
+
+/** List prices are quoted per million tokens */
+const perMillion = (usd: number) => usd / 1_000_000;
+
+/**
+ * Known metadata for the static fallback lists, used when a provider's
+ * list endpoint can't be reached or doesn't report these fields. Prices are
+ * the providers' published list prices.
+ */
+const STATIC_MODEL_INFO: Record<string, Omit<ModelInfo, "id">> = {
+  "gemini-2.5-flash": {
+    contextWindow: 1048576, inputPrice: perMillion(0.3), outputPrice: perMillion(2.5), supportsVision: true, supportsTools: true,
+  },
+  "gpt-4o": {
+    contextWindow: 128000, inputPrice: perMillion(2.5), outputPrice: perMillion(10), supportsVision: true, supportsTools: true,
+  },
+  "gpt-4o-mini": {
+    contextWindow: 128000, inputPrice: perMillion(0.15), outputPrice: perMillion(0.6), supportsVision: true, supportsTools: true,
+  },
+  "gpt-4.1": {
+    contextWindow: 1047576, inputPrice: perMillion(2), outputPrice: perMillion(8), supportsVision: true, supportsTools: true,
+  },
+  "gpt-4.1-mini": {
+    contextWindow: 1047576, inputPrice: perMillion(0.4), outputPrice: perMillion(1.6), supportsVision: true, supportsTools: true,
+  },
+  "claude-opus-4-1": {
+    contextWindow: 200000, inputPrice: perMillion(15), outputPrice: perMillion(75), supportsVision: true, supportsTools: true,
+  },
+  "claude-sonnet-4-5": {
+    contextWindow: 200000, inputPrice: perMillion(3), outputPrice: perMillion(15), supportsVision: true, supportsTools: true,
+  },
+  "claude-sonnet-4-0": {
+    contextWindow: 200000, inputPrice: perMillion(3), outputPrice: perMillion(15), supportsVision: true, supportsTools: true,
+  },
+  "claude-3-5-haiku-latest": {
+    contextWindow: 200000, inputPrice: perMillion(0.8), outputPrice: perMillion(4), supportsVision: true, supportsTools: true,
+  },
+  "mistral-large-latest": {
+    contextWindow: 131072, inputPrice: perMillion(2), outputPrice: perMillion(6), supportsTools: true,
+  },
+  "mistral-medium-latest": {
+    contextWindow: 131072, inputPrice: perMillion(0.4), outputPrice: perMillion(2), supportsVision: true, supportsTools: true,
+  },
+  "mistral-small-latest": {
+    contextWindow: 131072, inputPrice: perMillion(0.1), outputPrice: perMillion(0.3), supportsVision: true, supportsTools: true,
+  },
+  "open-mistral-nemo": {
+    contextWindow: 131072, inputPrice: perMillion(0.15), outputPrice: perMillion(0.15), supportsTools: true,
+  },
+  "codestral-latest": {
+    contextWindow: 262144, inputPrice: perMillion(0.3), outputPrice: perMillion(0.9), supportsTools: true,
+  },
+};
+
+function staticCatalog(provider: string, error?: string): ProviderCatalog {
+  return {
+    id: provider,
+    name: getProviderName(provider),
+    models: getAvailableModels(provider).map(id => ({ id, ...STATIC_MODEL_INFO[id] })),
+    source: "static",
+    error,
+  };
+}
+
+async function fetchJson(url: string, headers: Record<string, string>): Promise<any> {
+  const response = await fetch(url, {
+    headers,
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`${response.status} ${response.statusText}: ${error}`);
+  }
+
+  return response.json();
+}
+
+const toPrice = (value: unknown): number | undefined => {
+  const price = typeof value === "string" ? parseFloat(value) : typeof value === "number" ? value : NaN;
+  return Number.isFinite(price) ? price : undefined;
+};
+
+/**
+ * OpenRouter reports pricing (USD per token, as strings), context length,
+ * input modalities and supported request parameters for every model
+ */
+async function fetchOpenRouterModels(apiKey: string): Promise<ModelInfo[]> {
+  const data = await fetchJson("https://openrouter.ai/api/v1/models", {
+    "Authorization": `Bearer ${apiKey}`,
+  });
+
+  return (data.data ?? []).map((m: any) => ({
+    id: m.id,
+    name: m.name,
+    contextWindow: m.context_length ?? m.top_provider?.context_length,
+    inputPrice: toPrice(m.pricing?.prompt),
+    outputPrice: toPrice(m.pricing?.completion),
+    supportsVision: m.architecture?.input_modalities?.includes("image") ?? undefined,
+    supportsTools: m.supported_parameters?.includes("tools") ?? undefined,
+  }));
+}
+
+async function fetchMistralModels(apiKey: string): Promise<ModelInfo[]> {
+  const data = await fetchJson("https://api.mistral.ai/v1/models", {
+    "Authorization": `Bearer ${apiKey}`,
+  });
+
+  return (data.data ?? [])
+    .filter((m: any) => m.capabilities?.completion_chat !== false)
+    .map((m: any) => ({
+      id: m.id,
+      name: m.name ?? undefined,
+      contextWindow: m.max_context_length,
+      supportsVision: m.capabilities?.vision,
+      supportsTools: m.capabilities?.function_calling,
+    }));
+}
+
+/**
+ * Anthropic only returns ids and display names; every current Claude model
+ * has a 200k window and accepts images and tools
+ */
+async function fetchAnthropicModels(apiKey: string): Promise<ModelInfo[]> {
+  const data = await fetchJson("https://api.anthropic.com/v1/models?limit=100", {
+    "x-api-key": apiKey,
+    "anthropic-version": "2023-06-01",
+  });
+
+  return (data.data ?? []).map((m: any) => ({
+    id: m.id,
+    name: m.display_name,
+    contextWindow: 200000,
+    supportsVision: true,
+    supportsTools: true,
+  }));
+}
+
+async function fetchLiveModels(provider: string, credentials: CatalogCredentials): Promise<ModelInfo[] | null> {
+  switch (provider) {
+    case "openrouter":
+      return credentials.apiKey ? fetchOpenRouterModels(credentials.apiKey) : null;
+
+    case "mistral":
+      return credentials.apiKey ? fetchMistralModels(credentials.apiKey) : null;
+
+    case "anthropic":
+      return credentials.apiKey ? fetchAnthropicModels(credentials.apiKey) : null;
+
+    case "openai-compatible": {
+      if (!credentials.baseUrl) return null;
+      const ids = await listOpenAICompatibleModels(credentials.baseUrl, credentials.apiKey);
+      return ids.map(id => ({ id }));
+    }
+
+    // The built-in OpenAI endpoint has no list-models API
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check credentials with a cheap authenticated call, throwing the provider's
+ * error if they're rejected
+ */
+export async function verifyCatalogCredentials(provider: string, credentials: CatalogCredentials): Promise<void> {
+  switch (provider) {
+    // The model list is public, so ask about the key itself
+    case "openrouter":
+      await fetchJson("https://openrouter.ai/api/v1/key", {
+        "Authorization": `Bearer ${credentials.apiKey}`,
+      });
+      return;
+
+    // A key of the user's own, used for OpenAI TTS
+    case "openai":
+      await fetchJson("https://api.openai.com/v1/models", {
+        "Authorization": `Bearer ${credentials.apiKey}`,
+      });
+      return;
+
+    default:
+      if (!(await fetchLiveModels(provider, credentials))) {
+        throw new Error(`${getProviderName(provider)} credentials are incomplete`);
+      }
+  }
+}
+
+function cacheKey(provider: string, credentials: CatalogCredentials): string {
+  // Only the key's tail is kept so full keys don't sit in the cache index
+  return [provider, credentials.baseUrl ?? "", credentials.apiKey?.slice(-8) ?? ""].join("|");
+}
+
+/**
+ * Models available from a provider with the given credentials. Live lists are
+ * cached for CACHE_TTL_MS; failures fall back to the static list with `error` set.
+ */
+export async function getProviderCatalog(
+  provider: string,
+  credentials: CatalogCredentials = {},
+  options: { refresh?: boolean } = {}
+): Promise<ProviderCatalog> {
+  const key = cacheKey(provider, credentials);
+  const cached = cache.get(key);
+  if (!options.refresh && cached && cached.expiresAt > Date.now()) {
+    return cached.catalog;
+  }
+
+  let catalog: ProviderCatalog;
+  try {
+    const models = await fetchLiveModels(provider, credentials);
+    catalog = models
+      ? {
+          id: provider,
+          name: getProviderName(provider),
+          models: models.map(m => ({ ...STATIC_MODEL_INFO[m.id], ...m })),
+          source: "live",
+        }
+      : staticCatalog(provider);
+  } catch (error: any) {
+    console.warn(`[Catalog] Failed to list ${provider} models:`, error);
+    // Don't cache failures so the next request retries
+    return staticCatalog(provider, error?.message || String(error));
+  }
+
+  cache.set(key, { expiresAt: Date.now() + CACHE_TTL_MS, catalog });
+  return catalog;
+}
+
+/**
+ * Metadata for one model from any cached catalog, falling back to static info.
+ * For the built-in provider it's the model that actually answers.
+ */
+export function getModelInfo(provider: string, model: string): ModelInfo {
+  if (provider === "openai") model = builtInModel(model);
+  for (const [key, entry] of Array.from(cache.entries())) {
+    if (!key.startsWith(`${provider}|`)) continue;
+    const info = entry.catalog.models.find(m => m.id === model);
+    if (info) return info;
+  }
+  return { id: model, ...STATIC_MODEL_INFO[model] };
+}
+
+/**
+ * Estimated USD cost of a request from the model's catalog prices; 0 when
+ * the provider doesn't publish them
+ */
+export function estimateCost(provider: string, model: string, usage: LLMUsage): number {
+  const info = getModelInfo(provider, model);
+  return usage.prompt_tokens * (info.inputPrice ?? 0) + usage.completion_tokens * (info.outputPrice ?? 0);
+}
+
+/** Estimated USD cost as stored on usage rows */
+export function toCostMicros(cost: number | undefined): number | null {
+  return cost ? Math.round(cost * 1_000_000) : null;
+}
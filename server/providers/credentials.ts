@@ -0,0 +1,58 @@
+import { CATALOG_PROVIDERS, verifyCatalogCredentials } from "./catalog";
+import { verifySTTCredentials } from "./stt";
+import { verifyTTSCredentials } from "./tts";
+
+export interface CredentialCheck {
+  healthStatus: "ok" | "error";
+  healthError: string | null;
+  lastVerifiedAt: Date;
+}
+
+/**
+ * The key to use for a provider: the one chosen (e.g. by a conversation) if
+ * it's still active, else the user's default for the provider, else the first
+ * active one
+ */
+export function selectProviderConfig<T extends { id: number; provider: string; isActive: boolean; isDefault: boolean }>(
+  configs: T[],
+  provider: string,
+  configId?: number | null
+): T | undefined {
+  const active = configs.filter(c => c.provider === provider && c.isActive);
+  return active.find(c => c.id === configId) ?? active.find(c => c.isDefault) ?? active[0];
+}
+
+/** Providers whose saved keys are used for speech-to-text */
+const STT_PROVIDERS = ["deepgram"];
+
+/**
+ * Test a saved provider config against the registry that uses it (LLM, STT or
+ * TTS) with a cheap authenticated call. Never throws; failures are reported in
+ * the result.
+ */
+export async function verifyProviderCredentials(config: {
+  provider: string;
+  apiKey: string;
+  baseUrl: string | null;
+}): Promise<CredentialCheck> {
+  const provider = config.provider.toLowerCase();
+  const apiKey = config.apiKey || undefined;
+  const baseUrl = config.baseUrl ?? undefined;
+
+  try {
+    if ((CATALOG_PROVIDERS as readonly string[]).includes(provider)) {
+      await verifyCatalogCredentials(provider, { apiKey, baseUrl });
+    } else if (STT_PROVIDERS.includes(provider)) {
+      await verifySTTCredentials(provider, apiKey);
+    } else {
+      await verifyTTSCredentials(provider, apiKey, baseUrl);
+    }
+    return { healthStatus: "ok", healthError: null, lastVerifiedAt: new Date() };
+  } catch (error) {
+    return {
+      healthStatus: "error",
+      healthError: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+      lastVerifiedAt: new Date(),
+    };
+  }
+}
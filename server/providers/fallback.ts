@@ -0,0 +1,205 @@
+import { HttpError } from "@shared/_core/errors";
+import { streamLLM } from "./llm";
+import type { LLMRequest, LLMStreamChunk } from "./llm";
+
+/**
+ * One provider/model pair in a fallback chain, with the credentials to reach it
+ */
+export interface LLMTarget {
+  provider: string;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  /** Saved key the request is billed to, for usage tracking */
+  providerConfigId?: number;
+}
+
+const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+const FAILURE_THRESHOLD = 5;
+const COOLDOWN_MS = 60 * 1000;
+
+// ============ Error Classification ============
+
+/**
+ * Rate limits, server errors and network failures are worth retrying;
+ * bad requests and auth errors are not
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.statusCode === 408 || error.statusCode === 429 || error.statusCode >= 500;
+  }
+  // fetch() rejects with a TypeError on connection failures
+  return error instanceof TypeError || (error as Error)?.name === "TimeoutError";
+}
+
+/**
+ * Failures that say the provider itself is down rather than that one key is
+ * rate-limited or refused; only these count towards opening a circuit
+ */
+function isOutage(error: unknown): boolean {
+  if (error instanceof HttpError) return error.statusCode >= 500;
+  return isTransientError(error);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in [0, base * 2^attempt]
+ */
+export function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// ============ Circuit Breaker ============
+
+/**
+ * Circuit breaker for one provider endpoint. After FAILURE_THRESHOLD
+ * consecutive outages it's skipped for COOLDOWN_MS; after that a single
+ * request is let through as a probe and either closes or re-opens the
+ * circuit. Requests arriving while the probe is out are skipped too.
+ *
+ * Every request that canRequest() lets through must end in recordSuccess(),
+ * recordFailure() or release().
+ */
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  canRequest(): boolean {
+    if (this.openedAt === null) return true;
+    if (this.probing || Date.now() - this.openedAt < COOLDOWN_MS) return false;
+    this.probing = true;
+    return true;
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    this.probing = false;
+    if (this.failures >= FAILURE_THRESHOLD) {
+      this.openedAt = Date.now();
+    }
+  }
+
+  /** The request ended without saying anything about the provider's health */
+  release() {
+    this.probing = false;
+  }
+
+  get state(): "closed" | "open" | "half-open" {
+    if (this.openedAt === null) return "closed";
+    return this.probing || Date.now() - this.openedAt < COOLDOWN_MS ? "open" : "half-open";
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Saved keys (and the self-hosted servers behind them) each get their own
+ * breaker, so one user's dead server doesn't disable the provider for
+ * everyone; targets using the platform's own credentials share one
+ */
+function breakerKey(target: LLMTarget): string {
+  return target.providerConfigId === undefined
+    ? target.provider
+    : `${target.provider}#${target.providerConfigId}`;
+}
+
+function getBreaker(target: LLMTarget): CircuitBreaker {
+  const key = breakerKey(target);
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+export function getCircuitState(target: LLMTarget) {
+  return getBreaker(target).state;
+}
+
+// ============ Fallback Streaming ============
+
+/**
+ * Stream from the first target that answers. Transient errors are retried with
+ * backoff before moving down the chain; other errors move on immediately.
+ * Once the first chunk arrives the stream is committed to that target, so a
+ * failure mid-reply is surfaced rather than restarted elsewhere.
+ *
+ * Returns the target that produced the reply.
+ */
+export async function* streamLLMWithFallback(
+  targets: LLMTarget[],
+  buildRequest: (target: LLMTarget) => LLMRequest,
+  signal?: AbortSignal
+): AsyncGenerator<LLMStreamChunk, LLMTarget> {
+  const failures: string[] = [];
+
+  for (const target of targets) {
+    const breaker = getBreaker(target);
+
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.canRequest()) {
+        failures.push(`${target.provider}: temporarily disabled after repeated failures`);
+        break;
+      }
+
+      let stream: AsyncGenerator<LLMStreamChunk>;
+      let first: IteratorResult<LLMStreamChunk>;
+      try {
+        stream = streamLLM({ ...buildRequest(target), signal });
+        first = await stream.next();
+      } catch (error: any) {
+        if (isOutage(error) && !signal?.aborted) {
+          breaker.recordFailure();
+        } else {
+          breaker.release();
+        }
+        if (signal?.aborted) throw error;
+
+        const transient = isTransientError(error);
+
+        if (transient && attempt < MAX_RETRIES) {
+          console.warn(`[LLM] ${target.provider} failed (attempt ${attempt + 1}), retrying:`, error.message);
+          await sleep(backoffDelay(attempt), signal);
+          continue;
+        }
+
+        console.warn(`[LLM] ${target.provider} failed, trying next provider:`, error.message);
+        failures.push(`${target.provider}: ${error.message}`);
+        break;
+      }
+
+      breaker.recordSuccess();
+      if (!first.done) {
+        yield first.value;
+        yield* stream;
+      }
+      return target;
+    }
+  }
+
+  throw new Error(
+    failures.length === 1 ? failures[0] : `All providers failed (${failures.join("; ")})`
+  );
+}
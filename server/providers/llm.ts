@@ -1,8 +1,19 @@
-import { invokeLLM } from "../_core/llm";
+import { HttpError } from "@shared/_core/errors";
+import { invokeLLM, invokeLLMStream } from "../_core/llm";
+import type { Message, Tool, ToolCall, ToolChoice } from "../_core/llm";
+import { fetchUserServer } from "./network";
+
+export type { Tool, ToolCall, ToolChoice };
 
 export interface LLMMessage {
-  role: "system" | "user" | "assistant";
+  role: "system" | "user" | "assistant" | "tool";
   content: string;
+  /** Tool calls requested by an assistant message */
+  toolCalls?: ToolCall[];
+  /** Id of the call a tool message answers */
+  toolCallId?: string;
+  /** Name of the tool that produced a tool message */
+  name?: string;
 }
 
 export interface LLMRequest {
@@ -10,33 +21,207 @@ export interface LLMRequest {
   provider?: string;
   model?: string;
   apiKey?: string;
+  /** Server root or `/v1` URL for the openai-compatible provider */
+  baseUrl?: string;
   temperature?: number;
   maxTokens?: number;
+  tools?: Tool[];
+  toolChoice?: ToolChoice;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
 }
 
 export interface LLMResponse {
   content: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  toolCalls?: ToolCall[];
+  usage?: LLMUsage;
   model?: string;
   provider?: string;
 }
 
+export type LLMStreamChunk =
+  | { type: "delta"; content: string }
+  | { type: "done"; toolCalls?: ToolCall[]; usage?: LLMUsage; model?: string; provider: string };
+
+/**
+ * Providers whose chat APIs accept tool definitions. Self-hosted
+ * openai-compatible servers are left out: whether tools work there depends on
+ * the model and server flags, and unsupported models reject the request.
+ */
+const TOOL_CAPABLE_PROVIDERS = new Set(["openai", "openrouter", "mistral", "anthropic", "claude"]);
+
+export function supportsTools(provider: string): boolean {
+  return TOOL_CAPABLE_PROVIDERS.has(provider.toLowerCase());
+}
+
+// ============ Request Formatting ============
+
+/**
+ * Convert messages to the OpenAI chat format (also used by OpenRouter and Mistral)
+ */
+function toOpenAIMessages(messages: LLMMessage[]): Message[] {
+  return messages.map(m => {
+    if (m.role === "tool") {
+      return { role: "tool", content: m.content, tool_call_id: m.toolCallId, name: m.name };
+    }
+    if (m.role === "assistant" && m.toolCalls?.length) {
+      return { role: "assistant", content: m.content, tool_calls: m.toolCalls };
+    }
+    return { role: m.role, content: m.content };
+  });
+}
+
+function toOpenAIToolChoice(toolChoice: ToolChoice | undefined) {
+  if (!toolChoice || typeof toolChoice === "string") return toolChoice;
+  if ("name" in toolChoice) {
+    return { type: "function", function: { name: toolChoice.name } };
+  }
+  return toolChoice;
+}
+
+function buildOpenAIBody(request: LLMRequest, defaultModel: string): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    model: request.model || defaultModel,
+    messages: toOpenAIMessages(request.messages),
+    temperature: request.temperature || 0.7,
+    max_tokens: request.maxTokens || 2000,
+  };
+
+  if (request.tools?.length) {
+    body.tools = request.tools;
+    if (request.toolChoice) {
+      body.tool_choice = toOpenAIToolChoice(request.toolChoice);
+    }
+  }
+
+  return body;
+}
+
+/**
+ * Convert messages to Anthropic's format: the system prompt is a separate field,
+ * tool calls become `tool_use` blocks and tool results are sent back as
+ * `tool_result` blocks inside a user turn
+ */
+function toAnthropicMessages(messages: LLMMessage[]) {
+  const result: Array<{ role: "user" | "assistant"; content: string | Array<Record<string, unknown>> }> = [];
+
+  for (const m of messages) {
+    if (m.role === "system") continue;
+
+    if (m.role === "tool") {
+      const block = { type: "tool_result", tool_use_id: m.toolCallId, content: m.content };
+      const previous = result[result.length - 1];
+      // Results for parallel calls must share a single user turn
+      if (previous?.role === "user" && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+
+    if (m.role === "assistant" && m.toolCalls?.length) {
+      result.push({
+        role: "assistant",
+        content: [
+          ...(m.content ? [{ type: "text", text: m.content }] : []),
+          ...m.toolCalls.map(call => ({
+            type: "tool_use",
+            id: call.id,
+            name: call.function.name,
+            input: parseToolArguments(call.function.arguments),
+          })),
+        ],
+      });
+      continue;
+    }
+
+    result.push({ role: m.role, content: m.content });
+  }
+
+  return result;
+}
+
+function toAnthropicToolChoice(toolChoice: ToolChoice) {
+  if (toolChoice === "auto" || toolChoice === "none") return { type: toolChoice };
+  if (toolChoice === "required") return { type: "any" };
+  if ("name" in toolChoice) return { type: "tool", name: toolChoice.name };
+  return { type: "tool", name: toolChoice.function.name };
+}
+
+function buildAnthropicBody(request: LLMRequest): Record<string, unknown> {
+  const systemMessage = request.messages.find(m => m.role === "system");
+
+  const body: Record<string, unknown> = {
+    model: request.model || "claude-sonnet-4-0",
+    system: systemMessage?.content || "",
+    messages: toAnthropicMessages(request.messages),
+    temperature: request.temperature || 0.7,
+    max_tokens: request.maxTokens || 2000,
+  };
+
+  if (request.tools?.length) {
+    body.tools = request.tools.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters || { type: "object", properties: {} },
+    }));
+    if (request.toolChoice) {
+      body.tool_choice = toAnthropicToolChoice(request.toolChoice);
+    }
+  }
+
+  return body;
+}
+
+export function parseToolArguments(args: string): Record<string, unknown> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// ============ Providers ============
+
+const BUILT_IN_DEFAULT_MODEL = "gemini-2.5-flash";
+
+/**
+ * The model the built-in endpoint actually serves for a request: one of its
+ * listed models, or its default. Conversations default to "gpt-4", which it
+ * doesn't serve.
+ */
+export function builtInModel(model: string | undefined): string {
+  return model && getAvailableModels("openai").includes(model) ? model : BUILT_IN_DEFAULT_MODEL;
+}
+
 /**
  * Call OpenAI models
  */
 async function callOpenAI(request: LLMRequest): Promise<LLMResponse> {
   const response = await invokeLLM({
-    messages: request.messages,
+    messages: toOpenAIMessages(request.messages),
+    model: builtInModel(request.model),
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    tools: request.tools,
+    toolChoice: request.toolChoice,
+    signal: request.signal,
   });
+  const message = response.choices[0]?.message;
 
   return {
-    content: typeof response.choices[0]?.message?.content === 'string'
-      ? response.choices[0].message.content
-      : "No response generated",
+    content: typeof message?.content === 'string'
+      ? message.content
+      : message?.tool_calls?.length ? "" : "No response generated",
+    toolCalls: message?.tool_calls,
     usage: response.usage,
     model: response.model,
     provider: "openai",
@@ -58,23 +243,21 @@ async function callOpenRouter(request: LLMRequest): Promise<LLMResponse> {
       "Content-Type": "application/json",
       "HTTP-Referer": process.env.VITE_APP_ID || "https://ai-voice-assistant.manus.space",
     },
-    body: JSON.stringify({
-      model: request.model || "mistralai/mistral-7b-instruct",
-      messages: request.messages,
-      temperature: request.temperature || 0.7,
-      max_tokens: request.maxTokens || 2000,
-    }),
+    body: JSON.stringify(buildOpenAIBody(request, "mistralai/mistral-7b-instruct")),
+    signal: request.signal,
   });
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`OpenRouter API error: ${error}`);
+    throw new HttpError(response.status, `OpenRouter API error: ${error}`);
   }
 
   const data = await response.json();
+  const message = data.choices[0]?.message;
 
   return {
-    content: data.choices[0]?.message?.content || "No response generated",
+    content: message?.content || (message?.tool_calls?.length ? "" : "No response generated"),
+    toolCalls: message?.tool_calls,
     usage: data.usage,
     model: data.model,
     provider: "openrouter",
@@ -95,23 +278,21 @@ async function callMistral(request: LLMRequest): Promise<LLMResponse> {
       "Authorization": `Bearer ${request.apiKey}`,
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({
-      model: request.model || "mistral-small-latest",
-      messages: request.messages,
-      temperature: request.temperature || 0.7,
-      max_tokens: request.maxTokens || 2000,
-    }),
+    body: JSON.stringify(buildOpenAIBody(request, "mistral-small-latest")),
+    signal: request.signal,
   });
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Mistral API error: ${error}`);
+    throw new HttpError(response.status, `Mistral API error: ${error}`);
   }
 
   const data = await response.json();
+  const message = data.choices[0]?.message;
 
   return {
-    content: data.choices[0]?.message?.content || "No response generated",
+    content: message?.content || (message?.tool_calls?.length ? "" : "No response generated"),
+    toolCalls: message?.tool_calls,
     usage: data.usage,
     model: data.model,
     provider: "mistral",
@@ -126,10 +307,6 @@ async function callAnthropic(request: LLMRequest): Promise<LLMResponse> {
     throw new Error("Anthropic API key is required");
   }
 
-  // Separate system message from conversation
-  const systemMessage = request.messages.find(m => m.role === "system");
-  const conversationMessages = request.messages.filter(m => m.role !== "system");
-
   const response = await fetch("https://api.anthropic.com/v1/messages", {
     method: "POST",
     headers: {
@@ -137,24 +314,29 @@ async function callAnthropic(request: LLMRequest): Promise<LLMResponse> {
       "anthropic-version": "2023-06-01",
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({
-      model: request.model || "claude-3-5-sonnet-20241022",
-      system: systemMessage?.content || "",
-      messages: conversationMessages,
-      temperature: request.temperature || 0.7,
-      max_tokens: request.maxTokens || 2000,
-    }),
+    body: JSON.stringify(buildAnthropicBody(request)),
+    signal: request.signal,
   });
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Anthropic API error: ${error}`);
+    throw new HttpError(response.status, `Anthropic API error: ${error}`);
   }
 
   const data = await response.json();
+  const blocks: any[] = data.content || [];
+  const text = blocks.filter(b => b.type === "text").map(b => b.text).join("");
+  const toolCalls: ToolCall[] = blocks
+    .filter(b => b.type === "tool_use")
+    .map(b => ({
+      id: b.id,
+      type: "function",
+      function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+    }));
 
   return {
-    content: data.content[0]?.text || "No response generated",
+    content: text || (toolCalls.length ? "" : "No response generated"),
+    toolCalls: toolCalls.length ? toolCalls : undefined,
     usage: {
       prompt_tokens: data.usage?.input_tokens || 0,
       completion_tokens: data.usage?.output_tokens || 0,
@@ -165,6 +347,76 @@ async function callAnthropic(request: LLMRequest): Promise<LLMResponse> {
   };
 }
 
+/**
+ * Build an endpoint URL on a self-hosted OpenAI-compatible server. Accepts the
+ * server root (http://localhost:11434) or its /v1 base.
+ */
+function resolveCompatibleUrl(baseUrl: string | undefined, path: string): string {
+  if (!baseUrl) {
+    throw new Error("Base URL is required for OpenAI-compatible providers");
+  }
+  const root = baseUrl.trim().replace(/\/+$/, "");
+  const v1 = root.endsWith("/v1") ? root : `${root}/v1`;
+  return `${v1}${path}`;
+}
+
+function compatibleHeaders(apiKey?: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    ...(apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}),
+  };
+}
+
+/**
+ * Call a self-hosted OpenAI-compatible server (Ollama, LM Studio, vLLM, llama.cpp)
+ */
+async function callOpenAICompatible(request: LLMRequest): Promise<LLMResponse> {
+  if (!request.model) {
+    throw new Error("A model is required for OpenAI-compatible providers");
+  }
+
+  const response = await fetchUserServer(resolveCompatibleUrl(request.baseUrl, "/chat/completions"), {
+    method: "POST",
+    headers: compatibleHeaders(request.apiKey),
+    body: JSON.stringify(buildOpenAIBody(request, request.model)),
+    signal: request.signal,
+  });
+
+  // The server is the user's, so its error body isn't passed on
+  if (!response.ok) {
+    throw new HttpError(response.status, `OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const message = data.choices[0]?.message;
+
+  return {
+    content: message?.content || (message?.tool_calls?.length ? "" : "No response generated"),
+    toolCalls: message?.tool_calls,
+    usage: data.usage,
+    model: data.model,
+    provider: "openai-compatible",
+  };
+}
+
+/**
+ * List the models a self-hosted OpenAI-compatible server is serving
+ */
+export async function listOpenAICompatibleModels(baseUrl: string, apiKey?: string): Promise<string[]> {
+  const response = await fetchUserServer(resolveCompatibleUrl(baseUrl, "/models"), {
+    headers: compatibleHeaders(apiKey),
+    signal: AbortSignal.timeout(5000),
+  });
+
+  // The server is the user's, so its error body isn't passed on
+  if (!response.ok) {
+    throw new HttpError(response.status, `OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return (data.data ?? []).map((m: { id: string }) => m.id);
+}
+
 /**
  * Main function to call any LLM provider
  */
@@ -185,54 +437,359 @@ export async function callLLM(request: LLMRequest): Promise<LLMResponse> {
     case "claude":
       return callAnthropic(request);
     
+    case "openai-compatible":
+      return callOpenAICompatible(request);
+    
     default:
       throw new Error(`Unsupported LLM provider: ${provider}`);
   }
 }
 
+// ============ Streaming ============
+
+/**
+ * Read a server-sent events body and yield the payload of each `data:` line
+ */
+async function* readSSEData(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (line.startsWith("data:")) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+
+    if (buffer.startsWith("data:")) {
+      yield buffer.slice(5).trim();
+    }
+  } finally {
+    // Closes the upstream connection when the consumer stops early
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
 /**
- * Get available models for a provider
+ * Parse an OpenAI-style chat completion stream (OpenAI, forge, OpenRouter, Mistral)
+ */
+async function* parseOpenAIStream(response: Response, provider: string): AsyncGenerator<LLMStreamChunk> {
+  let usage: LLMUsage | undefined;
+  let model: string | undefined;
+  // Tool calls arrive in fragments keyed by their index in the final list
+  const toolCalls: ToolCall[] = [];
+
+  for await (const data of readSSEData(response)) {
+    if (!data || data === "[DONE]") continue;
+
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      // OpenRouter sends keep-alive comments that are not JSON
+      continue;
+    }
+
+    if (event.error) {
+      throw new Error(`${getProviderName(provider)} stream error: ${event.error.message || JSON.stringify(event.error)}`);
+    }
+
+    model = event.model || model;
+    if (event.usage) {
+      usage = event.usage;
+    }
+
+    const delta = event.choices?.[0]?.delta;
+    if (typeof delta?.content === "string" && delta.content.length > 0) {
+      yield { type: "delta", content: delta.content };
+    }
+
+    for (const fragment of delta?.tool_calls ?? []) {
+      const index = fragment.index ?? toolCalls.length;
+      const call = toolCalls[index] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      };
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name) call.function.name += fragment.function.name;
+      if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+    }
+  }
+
+  yield {
+    type: "done",
+    toolCalls: toolCalls.length ? toolCalls.filter(Boolean) : undefined,
+    usage,
+    model,
+    provider,
+  };
+}
+
+async function* streamOpenAI(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+  const response = await invokeLLMStream({
+    messages: toOpenAIMessages(request.messages),
+    model: builtInModel(request.model),
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    tools: request.tools,
+    toolChoice: request.toolChoice,
+    signal: request.signal,
+  });
+
+  yield* parseOpenAIStream(response, "openai");
+}
+
+async function* streamOpenRouter(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+  if (!request.apiKey) {
+    throw new Error("OpenRouter API key is required");
+  }
+
+  const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${request.apiKey}`,
+      "Content-Type": "application/json",
+      "HTTP-Referer": process.env.VITE_APP_ID || "https://ai-voice-assistant.manus.space",
+    },
+    body: JSON.stringify({
+      ...buildOpenAIBody(request, "mistralai/mistral-7b-instruct"),
+      stream: true,
+      usage: { include: true },
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new HttpError(response.status, `OpenRouter API error: ${error}`);
+  }
+
+  yield* parseOpenAIStream(response, "openrouter");
+}
+
+async function* streamMistral(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+  if (!request.apiKey) {
+    throw new Error("Mistral API key is required");
+  }
+
+  const response = await fetch("https://api.mistral.ai/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${request.apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      ...buildOpenAIBody(request, "mistral-small-latest"),
+      stream: true,
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new HttpError(response.status, `Mistral API error: ${error}`);
+  }
+
+  yield* parseOpenAIStream(response, "mistral");
+}
+
+async function* streamOpenAICompatible(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+  if (!request.model) {
+    throw new Error("A model is required for OpenAI-compatible providers");
+  }
+
+  const response = await fetchUserServer(resolveCompatibleUrl(request.baseUrl, "/chat/completions"), {
+    method: "POST",
+    headers: compatibleHeaders(request.apiKey),
+    body: JSON.stringify({
+      ...buildOpenAIBody(request, request.model),
+      stream: true,
+      stream_options: { include_usage: true },
+    }),
+    signal: request.signal,
+  });
+
+  // The server is the user's, so its error body isn't passed on
+  if (!response.ok) {
+    throw new HttpError(response.status, `OpenAI-compatible API error: ${response.status} ${response.statusText}`);
+  }
+
+  yield* parseOpenAIStream(response, "openai-compatible");
+}
+
+async function* streamAnthropic(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+  if (!request.apiKey) {
+    throw new Error("Anthropic API key is required");
+  }
+
+  const response = await fetch("https://api.anthropic.com/v1/messages", {
+    method: "POST",
+    headers: {
+      "x-api-key": request.apiKey,
+      "anthropic-version": "2023-06-01",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      ...buildAnthropicBody(request),
+      stream: true,
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new HttpError(response.status, `Anthropic API error: ${error}`);
+  }
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let model: string | undefined;
+  // tool_use blocks keyed by content block index; input arrives as partial JSON
+  const toolBlocks = new Map<number, ToolCall>();
+
+  for await (const data of readSSEData(response)) {
+    if (!data) continue;
+    const event = JSON.parse(data);
+
+    switch (event.type) {
+      case "message_start":
+        model = event.message?.model;
+        inputTokens = event.message?.usage?.input_tokens || 0;
+        outputTokens = event.message?.usage?.output_tokens || 0;
+        break;
+
+      case "content_block_start":
+        if (event.content_block?.type === "tool_use") {
+          toolBlocks.set(event.index, {
+            id: event.content_block.id,
+            type: "function",
+            function: { name: event.content_block.name, arguments: "" },
+          });
+        }
+        break;
+
+      case "content_block_delta":
+        if (event.delta?.type === "text_delta" && event.delta.text) {
+          yield { type: "delta", content: event.delta.text };
+        } else if (event.delta?.type === "input_json_delta") {
+          const call = toolBlocks.get(event.index);
+          if (call) call.function.arguments += event.delta.partial_json || "";
+        }
+        break;
+
+      case "message_delta":
+        outputTokens = event.usage?.output_tokens ?? outputTokens;
+        break;
+
+      case "error":
+        throw new Error(`Anthropic stream error: ${event.error?.message || "unknown error"}`);
+    }
+  }
+
+  const toolCalls = Array.from(toolBlocks.values()).map(call => ({
+    ...call,
+    function: { ...call.function, arguments: call.function.arguments || "{}" },
+  }));
+
+  yield {
+    type: "done",
+    toolCalls: toolCalls.length ? toolCalls : undefined,
+    usage: {
+      prompt_tokens: inputTokens,
+      completion_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+    },
+    model,
+    provider: "anthropic",
+  };
+}
+
+/**
+ * Stream a completion from any LLM provider, yielding text deltas as they
+ * arrive and a final "done" chunk carrying tool calls and usage
+ */
+export function streamLLM(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+  const provider = request.provider || "openai";
+
+  switch (provider.toLowerCase()) {
+    case "openai":
+      return streamOpenAI(request);
+
+    case "openrouter":
+      return streamOpenRouter(request);
+
+    case "mistral":
+      return streamMistral(request);
+
+    case "anthropic":
+    case "claude":
+      return streamAnthropic(request);
+
+    case "openai-compatible":
+      return streamOpenAICompatible(request);
+
+    default:
+      throw new Error(`Unsupported LLM provider: ${provider}`);
+  }
+}
+
+/**
+ * Static fallback model list for a provider, used when its list-models API
+ * can't be queried (see catalog.ts for live discovery)
  */
 export function getAvailableModels(provider: string): string[] {
   switch (provider.toLowerCase()) {
     case "openai":
       return [
-        "gpt-4",
-        "gpt-4-turbo",
         "gpt-4o",
-        "gpt-3.5-turbo",
+        "gpt-4o-mini",
+        "gpt-4.1",
+        "gpt-4.1-mini",
       ];
     
     case "openrouter":
       return [
+        "openai/gpt-4o",
+        "anthropic/claude-sonnet-4",
+        "google/gemini-2.5-flash",
+        "meta-llama/llama-3.3-70b-instruct",
+        "mistralai/mistral-large",
         "mistralai/mistral-7b-instruct",
-        "mistralai/mistral-medium",
-        "mistralai/mistral-large-latest",
-        "anthropic/claude-3-opus",
-        "anthropic/claude-3-5-sonnet",
-        "google/gemini-pro",
-        "meta-llama/llama-3-70b-instruct",
-        "openai/gpt-4-turbo",
       ];
     
     case "mistral":
       return [
-        "mistral-small-latest",
-        "mistral-medium-latest",
         "mistral-large-latest",
-        "open-mistral-7b",
-        "open-mixtral-8x7b",
+        "mistral-medium-latest",
+        "mistral-small-latest",
+        "open-mistral-nemo",
+        "codestral-latest",
       ];
     
     case "anthropic":
     case "claude":
       return [
-        "claude-3-5-sonnet-20241022",
-        "claude-3-opus-20240229",
-        "claude-3-sonnet-20240229",
-        "claude-3-haiku-20240307",
+        "claude-opus-4-1",
+        "claude-sonnet-4-5",
+        "claude-sonnet-4-0",
+        "claude-3-5-haiku-latest",
       ];
     
+    // Self-hosted servers are queried at runtime, see listOpenAICompatibleModels
+    case "openai-compatible":
     default:
       return [];
   }
@@ -248,6 +805,7 @@ export function getProviderName(provider: string): string {
     mistral: "Mistral AI",
     anthropic: "Anthropic Claude",
     claude: "Anthropic Claude",
+    "openai-compatible": "OpenAI-Compatible (Self-Hosted)",
   };
   return names[provider.toLowerCase()] || provider;
 }
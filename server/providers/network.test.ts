@@ -0,0 +1,55 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// "rebind.test" answers the up-front check with a public address and the
+// connection's own lookup with loopback, like a DNS-rebinding server
+const dnsAnswers = vi.hoisted(() => ({ check: "93.184.216.34", connect: "127.0.0.1" }));
+
+vi.mock("dns/promises", () => ({
+  lookup: vi.fn(async () => [{ address: dnsAnswers.check, family: 4 }]),
+}));
+
+vi.mock("dns", () => ({
+  lookup: vi.fn((_hostname: string, _options: unknown, callback: (...args: unknown[]) => void) => {
+    callback(null, [{ address: dnsAnswers.connect, family: 4 }]);
+  }),
+}));
+
+import { assertPublicUrl, fetchUserServer, isPrivateAddress } from "./network";
+
+describe("user-supplied server URLs", () => {
+  afterEach(() => {
+    dnsAnswers.check = "93.184.216.34";
+    dnsAnswers.connect = "127.0.0.1";
+  });
+
+  it("flags loopback, private, link-local and mapped addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "169.254.169.254", "192.168.0.1", "::1", "fd00::1", "::ffff:127.0.0.1"]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+    expect(isPrivateAddress("93.184.216.34")).toBe(false);
+  });
+
+  it("rejects a hostname that resolves to a private address", async () => {
+    dnsAnswers.check = "169.254.169.254";
+    await expect(assertPublicUrl("http://metadata.test/latest")).rejects.toThrow("public server");
+  });
+
+  it("doesn't connect when the address changes to a private one after the check", async () => {
+    let requests = 0;
+    const server = createServer((_req, res) => {
+      requests++;
+      res.end("internal");
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await expect(fetchUserServer(`http://rebind.test:${port}/`)).rejects.toThrow();
+      expect(requests).toBe(0);
+    } finally {
+      server.close();
+    }
+  });
+});
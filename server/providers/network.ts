@@ -0,0 +1,92 @@
+import { lookup as lookupCallback } from "dns";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import type { LookupFunction } from "net";
+import { Agent } from "undici";
+import { ENV } from "../_core/env";
+
+// Loopback, private networks, link-local (including cloud metadata endpoints) and other non-public ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped, "ipv4");
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Throw unless the URL is http(s) on a host that resolves only to public
+ * addresses. ALLOW_PRIVATE_PROVIDER_URLS lifts the address check for
+ * deployments whose model servers run on the same machine or network.
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error("Base URL is not a valid URL");
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("Base URL must use http or https");
+  }
+  if (ENV.allowPrivateProviderUrls) return;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(a => a.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error("Base URL must point to a public server");
+  }
+}
+
+/**
+ * Resolves a host for the connection itself and refuses private addresses,
+ * so a host whose DNS answer changes after assertPublicUrl (DNS rebinding)
+ * still can't be reached on an internal address
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (!ENV.allowPrivateProviderUrls && (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address)))) {
+      return callback(new Error(`${hostname} does not resolve to a public server`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const userServerAgent = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+/**
+ * Fetch from a server the user configured (a self-hosted model server or an
+ * Azure Speech endpoint). Its address is checked first, the connection only
+ * goes to an address that passes the same check, and redirects aren't
+ * followed, so a saved URL can't reach internal services.
+ */
+export async function fetchUserServer(url: string, init: RequestInit = {}): Promise<Response> {
+  await assertPublicUrl(url);
+  return fetch(url, { ...init, redirect: "error", dispatcher: userServerAgent } as RequestInit);
+}
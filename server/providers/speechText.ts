@@ -0,0 +1,345 @@
+/**
+ * Text normalization in front of TTS: replies are written to be read, so
+ * markdown and code are stripped, numbers, units and dates written out as
+ * words, and the user's pronunciations applied before a voice sees them.
+ */
+
+export interface LexiconEntry {
+  term: string;
+  /** Read in place of the term */
+  alias?: string | null;
+  /** IPA, for providers that accept phonemes */
+  phoneme?: string | null;
+}
+
+export interface SpeechTextOptions {
+  lexicon?: LexiconEntry[];
+  /** Produce an SSML fragment (escaped, ready to go inside <voice>) */
+  ssml?: boolean;
+  /** Write IPA pronunciations as <phoneme> tags */
+  phonemes?: boolean;
+}
+
+// ============ Numbers ============
+
+const ONES = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen",
+];
+const TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const SCALES = ["", "thousand", "million", "billion", "trillion"];
+
+const ORDINAL_WORDS: Record<string, string> = {
+  one: "first",
+  two: "second",
+  three: "third",
+  five: "fifth",
+  eight: "eighth",
+  nine: "ninth",
+  twelve: "twelfth",
+};
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+function belowThousand(n: number): string {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(`${ONES[Math.floor(n / 100)]} hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    words.push(TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : ""));
+  } else if (n > 0) {
+    words.push(ONES[n]);
+  }
+  return words.join(" ");
+}
+
+function readDigits(digits: string) {
+  return digits.split("").map(digit => ONES[Number(digit)]).join(" ");
+}
+
+export function numberToWords(n: number): string {
+  if (n < 0) return `minus ${numberToWords(-n)}`;
+  if (n === 0) return "zero";
+  // Too long to say as an amount
+  if (n >= 1e15) return readDigits(String(n));
+
+  const groups: string[] = [];
+  for (let scale = 0; n > 0; scale++) {
+    const chunk = n % 1000;
+    if (chunk) groups.unshift(belowThousand(chunk) + (SCALES[scale] ? ` ${SCALES[scale]}` : ""));
+    n = Math.floor(n / 1000);
+  }
+  return groups.join(" ");
+}
+
+function ordinalToWords(n: number): string {
+  return numberToWords(n).replace(/([a-z]+)$/, word =>
+    ORDINAL_WORDS[word] ?? (word.endsWith("y") ? `${word.slice(0, -1)}ieth` : `${word}th`)
+  );
+}
+
+/** "1,234.5" as "one thousand two hundred thirty-four point five" */
+function readNumber(text: string): string {
+  const negative = text.startsWith("-");
+  const [whole, fraction] = text.replace(/^-|,/g, "").split(".");
+  let words = numberToWords(Number(whole || "0"));
+  if (fraction) words += ` point ${readDigits(fraction)}`;
+  return negative ? `minus ${words}` : words;
+}
+
+/** Years are read in pairs: 1999 is "nineteen ninety-nine" */
+function yearToWords(year: number): string {
+  if (year < 1000 || year >= 10000 || (year >= 2000 && year < 2010)) return numberToWords(year);
+  const century = Math.floor(year / 100);
+  const rest = year % 100;
+  if (rest === 0) return `${numberToWords(century)} hundred`;
+  return `${numberToWords(century)} ${rest < 10 ? `oh ${ONES[rest]}` : numberToWords(rest)}`;
+}
+
+// ============ Units ============
+
+const UNITS: Record<string, [string, string]> = {
+  km: ["kilometer", "kilometers"],
+  cm: ["centimeter", "centimeters"],
+  mm: ["millimeter", "millimeters"],
+  mi: ["mile", "miles"],
+  ft: ["foot", "feet"],
+  kg: ["kilogram", "kilograms"],
+  mg: ["milligram", "milligrams"],
+  lb: ["pound", "pounds"],
+  lbs: ["pound", "pounds"],
+  oz: ["ounce", "ounces"],
+  ml: ["milliliter", "milliliters"],
+  mph: ["mile per hour", "miles per hour"],
+  "km/h": ["kilometer per hour", "kilometers per hour"],
+  kph: ["kilometer per hour", "kilometers per hour"],
+  "°C": ["degree Celsius", "degrees Celsius"],
+  "°F": ["degree Fahrenheit", "degrees Fahrenheit"],
+  ms: ["millisecond", "milliseconds"],
+  sec: ["second", "seconds"],
+  min: ["minute", "minutes"],
+  hr: ["hour", "hours"],
+  hrs: ["hour", "hours"],
+  KB: ["kilobyte", "kilobytes"],
+  MB: ["megabyte", "megabytes"],
+  GB: ["gigabyte", "gigabytes"],
+  TB: ["terabyte", "terabytes"],
+  Kbps: ["kilobit per second", "kilobits per second"],
+  Mbps: ["megabit per second", "megabits per second"],
+  Gbps: ["gigabit per second", "gigabits per second"],
+  Hz: ["hertz", "hertz"],
+  kHz: ["kilohertz", "kilohertz"],
+  MHz: ["megahertz", "megahertz"],
+  GHz: ["gigahertz", "gigahertz"],
+  W: ["watt", "watts"],
+  kW: ["kilowatt", "kilowatts"],
+  kWh: ["kilowatt hour", "kilowatt hours"],
+};
+
+const CURRENCIES: Record<string, { unit: [string, string]; cents: [string, string] }> = {
+  $: { unit: ["dollar", "dollars"], cents: ["cent", "cents"] },
+  "€": { unit: ["euro", "euros"], cents: ["cent", "cents"] },
+  "£": { unit: ["pound", "pounds"], cents: ["penny", "pence"] },
+};
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+const UNIT_PATTERN = new RegExp(
+  `(-?\\d[\\d,]*(?:\\.\\d+)?)\\s?(${Object.keys(UNITS)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|")})(?![A-Za-z])`,
+  "g"
+);
+
+function plural(value: string, [singular, many]: [string, string]) {
+  return value.replace(/,/g, "") === "1" ? singular : many;
+}
+
+// ============ Markdown ============
+
+/**
+ * Drops fenced code blocks from text that arrives in pieces (a reply split
+ * into sentences), remembering whether the last piece ended inside one
+ */
+export class CodeBlockFilter {
+  private inCode = false;
+
+  filter(text: string): string {
+    const parts = text.split(/```[^\n`]*/);
+    let kept = "";
+    parts.forEach((part, i) => {
+      if (i > 0) this.inCode = !this.inCode;
+      if (!this.inCode) kept += part;
+    });
+    return kept;
+  }
+}
+
+/** Inline code is read as words: getUserName() is "get user name" */
+function speakCode(code: string) {
+  return code
+    .replace(/\(\)/g, "")
+    .replace(/(\w)\.(?=\w)/g, "$1 dot ")
+    .replace(/[{}[\]();<>]/g, " ");
+}
+
+function stripMarkdown(text: string): string {
+  return new CodeBlockFilter().filter(text)
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1") // images: alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // links: their text
+    .replace(/`([^`\n]+)`/g, (_, code: string) => speakCode(code))
+    .replace(/<\/?[A-Za-z][^>]*>/g, "") // HTML
+    .replace(/https?:\/\/(?:www\.)?([^/\s]+)\S*/g, "$1") // bare URLs: just the site
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+    .replace(/^\s{0,3}>\s?/gm, "")
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, "") // list markers
+    .replace(/^\s*([-*_])(?:\s*\1){2,}\s*$/gm, "") // horizontal rules
+    .replace(/^[ \t]*\|?[ \t:|-]*-{3,}[ \t:|-]*$/gm, "") // table separators
+    .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, cells: string) => cells.split("|").map(cell => cell.trim()).filter(Boolean).join(", "))
+    .replace(/[ \t]*\|[ \t]*/g, ", ")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(^|[^\w*])\*(?!\s)([^*\n]+?)\*(?!\w)/g, "$1$2")
+    .replace(/(^|\W)_(?!\s)([^_\n]+?)_(?!\w)/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1");
+}
+
+// ============ Pronunciations ============
+
+/** Start of the private-use characters that stand in for pronunciations until the end */
+const PLACEHOLDER_BASE = 0xe000;
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Swap lexicon terms for placeholders, so number and identifier rules don't
+ * touch them, and return what each placeholder becomes. Terms with capitals
+ * only match that exact spelling ("IT" shouldn't change "it"); lowercase
+ * terms match any case.
+ */
+function applyLexicon(text: string, options: SpeechTextOptions): { text: string; replacements: string[] } {
+  const replacements: string[] = [];
+  const entries = [...(options.lexicon ?? [])]
+    .filter(entry => entry.term.trim() && (entry.alias || entry.phoneme))
+    .sort((a, b) => b.term.length - a.term.length);
+
+  for (const entry of entries) {
+    const term = entry.term.trim();
+    const pattern = new RegExp(
+      `(^|[^A-Za-z0-9])(${escapeRegExp(term)})(?![A-Za-z0-9])`,
+      term === term.toLowerCase() ? "gi" : "g"
+    );
+    text = text.replace(pattern, (_, before: string, matched: string) => {
+      let spoken: string;
+      if (entry.phoneme && options.phonemes) {
+        const label = options.ssml ? escapeXml(matched) : matched;
+        spoken = `<phoneme alphabet="ipa" ph="${escapeXml(entry.phoneme)}">${label}</phoneme>`;
+      } else {
+        const said = entry.alias || matched;
+        spoken = options.ssml ? escapeXml(said) : said;
+      }
+      replacements.push(spoken);
+      return before + String.fromCharCode(PLACEHOLDER_BASE + replacements.length - 1);
+    });
+  }
+  return { text, replacements };
+}
+
+// ============ Normalizer ============
+
+function expandNumbers(text: string): string {
+  return text
+    // ISO dates: 2024-03-05 is "March fifth, twenty twenty-four"
+    .replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, year: string, month: string, day: string) => {
+      const monthName = MONTHS[Number(month) - 1];
+      if (!monthName || Number(day) < 1 || Number(day) > 31) return match;
+      return `${monthName} ${ordinalToWords(Number(day))}, ${yearToWords(Number(year))}`;
+    })
+    // Written dates: March 5, 2024 / March 5th
+    .replace(
+      new RegExp(`\\b(${MONTHS.join("|")}) (\\d{1,2})(?:st|nd|rd|th)?\\b(?:,? (\\d{4})\\b)?`, "g"),
+      (_, month: string, day: string, year?: string) =>
+        `${month} ${ordinalToWords(Number(day))}${year ? `, ${yearToWords(Number(year))}` : ""}`
+    )
+    // Times: 9:00 is "nine o'clock", 14:05 is "fourteen oh five"
+    .replace(/\b(\d{1,2}):(\d{2})\b(\s*[ap]\.?m\.?)?/gi, (match, hour: string, minute: string, period?: string) => {
+      const h = Number(hour);
+      const m = Number(minute);
+      if (h > 23 || m > 59) return match;
+      const minutes = m === 0 ? (period ? "" : " o'clock") : m < 10 ? ` oh ${ONES[m]}` : ` ${numberToWords(m)}`;
+      // "p.m." may also end the sentence
+      const suffix = period
+        ? ` ${period.replace(/[.\s]/g, "").toUpperCase().split("").join(" ")}${period.endsWith(".") ? "." : ""}`
+        : "";
+      return `${numberToWords(h)}${minutes}${suffix}`;
+    })
+    // Money: $5.20 is "five dollars and twenty cents", $2.5 million is "two point five million dollars"
+    .replace(
+      /([$€£])\s?(\d[\d,]*)(?:\.(\d{1,2}))?(\d*)(?:\s?(thousand|million|billion|trillion|[kKMB]|bn)\b)?/g,
+      (_, symbol: string, whole: string, cents: string | undefined, extraDigits: string, scale?: string) => {
+        const currency = CURRENCIES[symbol];
+        if (scale) {
+          const scaleWord = { k: "thousand", K: "thousand", M: "million", B: "billion", bn: "billion" }[scale] ?? scale;
+          const amount = readNumber(cents !== undefined ? `${whole}.${cents}${extraDigits}` : whole);
+          return `${amount} ${scaleWord} ${currency.unit[1]}`;
+        }
+        let words = `${readNumber(whole)} ${plural(whole, currency.unit)}`;
+        const centValue = cents ? Number(cents.padEnd(2, "0")) : 0;
+        if (centValue) words += ` and ${numberToWords(centValue)} ${plural(String(centValue), currency.cents)}`;
+        return words;
+      }
+    )
+    .replace(/(-?\d[\d,]*(?:\.\d+)?)\s?%/g, (_, value: string) => `${readNumber(value)} percent`)
+    .replace(UNIT_PATTERN, (_, value: string, unit: string) => `${readNumber(value)} ${plural(value, UNITS[unit])}`)
+    .replace(/\b(\d+)(?:st|nd|rd|th)\b/g, (_, value: string) => ordinalToWords(Number(value)))
+    // Versions: 1.2.3 is "one point two point three"
+    .replace(/\b\d+(?:\.\d+){2,}\b/g, version => version.split(".").map(part => numberToWords(Number(part))).join(" point "))
+    // Years after words that introduce them: "in 1999"
+    .replace(
+      /\b(in|since|by|from|until|before|after|around|of|year|circa)\s+(1[1-9]\d\d|20\d\d)\b(?![.,]\d)/gi,
+      (_, word: string, year: string) => `${word} ${yearToWords(Number(year))}`
+    )
+    .replace(/(^|[^\w.])(-?\d{1,3}(?:,\d{3})+(?:\.\d+)?|-?\d+(?:\.\d+)?)(?![\w])/g, (_, before: string, value: string) =>
+      before + readNumber(value)
+    );
+}
+
+/** Identifiers as words: user_settings and getUserSettings are "user settings" and "get user settings" */
+function splitIdentifiers(text: string): string {
+  return text
+    .replace(/\b[A-Za-z][A-Za-z0-9]*(?:_+[A-Za-z0-9]+)+\b/g, identifier => identifier.replace(/_+/g, " "))
+    .replace(/\b([a-z]+)((?:[A-Z][a-z0-9]+)+)\b/g, (_, head: string, rest: string) =>
+      `${head} ${rest.replace(/([A-Z])/g, " $1").trim().toLowerCase()}`
+    );
+}
+
+/**
+ * Text as a voice should read it. With `ssml`, the result is an escaped SSML
+ * fragment; pronunciations with IPA become <phoneme> tags when `phonemes` is
+ * set, and otherwise use their alias.
+ */
+export function toSpeechText(text: string, options: SpeechTextOptions = {}): string {
+  const lexicon = applyLexicon(stripMarkdown(text), options);
+
+  let spoken = expandNumbers(splitIdentifiers(lexicon.text))
+    .replace(/[ \t]+/g, " ")
+    .replace(/ ?\n[\s]*/g, "\n")
+    .trim();
+  if (options.ssml) spoken = escapeXml(spoken);
+
+  return spoken.replace(/[\uE000-\uF8FF]/g, char => lexicon.replacements[char.charCodeAt(0) - PLACEHOLDER_BASE] ?? "");
+}
@@ -1,5 +1,9 @@
+import { WebSocket } from "ws";
+import { ENV } from "../_core/env";
 import { transcribeAudio } from "../_core/voiceTranscription";
 
+const VERIFY_TIMEOUT_MS = 8000;
+
 export interface STTRequest {
   audioUrl: string;
   provider?: string;
@@ -76,6 +80,22 @@ async function callDeepgram(request: STTRequest): Promise<STTResponse> {
   };
 }
 
+/** USD per audio minute at list price; the local stand-in is free */
+const STT_PRICE_PER_MINUTE: Record<string, number> = {
+  whisper: 0.006,
+  openai: 0.006,
+  deepgram: 0.0043,
+  local: 0,
+};
+
+/**
+ * Estimated USD cost of transcribing audio; unknown providers are charged
+ * at Whisper's rate rather than as free
+ */
+export function estimateSTTCost(provider: string, seconds: number): number {
+  return (seconds / 60) * (STT_PRICE_PER_MINUTE[provider.toLowerCase()] ?? STT_PRICE_PER_MINUTE.whisper);
+}
+
 /**
  * Main function to call any STT provider
  */
@@ -95,6 +115,33 @@ export async function callSTT(request: STTRequest): Promise<STTResponse> {
   }
 }
 
+/**
+ * Check an STT provider's API key with a cheap authenticated call
+ */
+export async function verifySTTCredentials(provider: string, apiKey?: string): Promise<void> {
+  switch (provider.toLowerCase()) {
+    case "deepgram": {
+      if (!apiKey) {
+        throw new Error("Deepgram API key is required");
+      }
+      const response = await fetch("https://api.deepgram.com/v1/projects", {
+        headers: {
+          "Authorization": `Token ${apiKey}`,
+        },
+        signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Deepgram API error: ${response.status} ${error}`);
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`Unsupported STT provider: ${provider}`);
+  }
+}
+
 /**
  * Get available models for a provider
  */
@@ -128,3 +175,240 @@ export function getSTTProviderName(provider: string): string {
   };
   return names[provider.toLowerCase()] || provider;
 }
+
+// ============ Streaming ============
+
+export interface STTStreamRequest {
+  provider?: string;
+  language?: string;
+  apiKey?: string;
+  model?: string;
+  /** Rate of the 16-bit mono PCM passed to write() */
+  sampleRate: number;
+}
+
+/** The whole transcript so far; interim words may still change, final ones won't */
+export interface STTPartialResult {
+  text: string;
+  isFinal: boolean;
+}
+
+/** A live transcription that audio is written to as it's recorded */
+export interface STTStream {
+  write(samples: Int16Array): void;
+  /** No more audio is coming; resolves once the last words are recognised */
+  finish(): Promise<STTResponse>;
+  /** Give up on the stream without waiting for a result */
+  close(): void;
+}
+
+/** How long to wait for the last results after the audio ends */
+const STREAM_FINISH_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Deepgram live transcription over a WebSocket. Audio written before the
+ * connection opens is held until it does.
+ */
+class DeepgramSTTStream implements STTStream {
+  private readonly socket: WebSocket;
+  private readonly closed: Promise<void>;
+  private pending: Buffer[] = [];
+  private finals: string[] = [];
+  private interim = "";
+  private sampleCount = 0;
+  private finishing = false;
+  private error: Error | null = null;
+
+  constructor(
+    private readonly request: STTStreamRequest,
+    private readonly onResult: (result: STTPartialResult) => void
+  ) {
+    if (!request.apiKey) {
+      throw new Error("Deepgram API key is required");
+    }
+
+    const params = new URLSearchParams({
+      model: request.model || "nova-2",
+      language: request.language || "en",
+      encoding: "linear16",
+      sample_rate: String(request.sampleRate),
+      channels: "1",
+      interim_results: "true",
+      punctuate: "true",
+      smart_format: "true",
+    });
+    this.socket = new WebSocket(`wss://api.deepgram.com/v1/listen?${params}`, {
+      headers: { Authorization: `Token ${request.apiKey}` },
+    });
+
+    this.socket.on("open", () => {
+      for (const chunk of this.pending) this.socket.send(chunk);
+      this.pending = [];
+      if (this.finishing) this.socket.send(JSON.stringify({ type: "CloseStream" }));
+    });
+    this.socket.on("message", data => this.handleMessage(data.toString()));
+    this.closed = new Promise(resolve => {
+      this.socket.on("close", () => resolve());
+      this.socket.on("error", error => {
+        this.error = error;
+        resolve();
+      });
+    });
+  }
+
+  private get text() {
+    return [...this.finals, this.interim].filter(Boolean).join(" ");
+  }
+
+  private handleMessage(raw: string) {
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (data.type !== "Results") return;
+
+    const transcript: string = data.channel?.alternatives?.[0]?.transcript || "";
+    if (data.is_final) {
+      if (transcript) this.finals.push(transcript);
+      this.interim = "";
+    } else {
+      this.interim = transcript;
+    }
+    this.onResult({ text: this.text, isFinal: Boolean(data.is_final) });
+  }
+
+  write(samples: Int16Array) {
+    if (this.finishing) return;
+    this.sampleCount += samples.length;
+
+    const chunk = Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(chunk);
+    } else if (this.socket.readyState === WebSocket.CONNECTING) {
+      this.pending.push(chunk);
+    }
+  }
+
+  async finish(): Promise<STTResponse> {
+    this.finishing = true;
+    if (this.socket.readyState === WebSocket.OPEN) {
+      // Deepgram sends the remaining results, then closes the connection
+      this.socket.send(JSON.stringify({ type: "CloseStream" }));
+    }
+
+    let timeout: NodeJS.Timeout | undefined;
+    await Promise.race([
+      this.closed,
+      new Promise<void>(resolve => {
+        timeout = setTimeout(resolve, STREAM_FINISH_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(timeout);
+    this.close();
+
+    if (this.error && this.finals.length === 0) {
+      throw new Error(`Deepgram streaming error: ${this.error.message}`);
+    }
+    // Words still interim when the stream ended are the best guess there is
+    const text = this.text;
+    return {
+      text,
+      duration: this.sampleCount / this.request.sampleRate,
+      provider: "deepgram",
+    };
+  }
+
+  close() {
+    if (this.socket.readyState !== WebSocket.CLOSED) this.socket.terminate();
+  }
+}
+
+/** Words revealed per this much audio by LocalSTTStream */
+const LOCAL_WORD_MS = 300;
+
+/**
+ * Stand-in for a live recognizer in tests and local development (the "local"
+ * provider). It "hears" a fixed transcript, LOCAL_STT_TRANSCRIPT by default,
+ * revealing one word per LOCAL_WORD_MS of audio written. Never offered in
+ * production.
+ */
+export class LocalSTTStream implements STTStream {
+  private readonly words: string[];
+  private sampleCount = 0;
+  private heard = 0;
+  private closed = false;
+
+  constructor(
+    private readonly transcript: string,
+    private readonly sampleRate: number,
+    private readonly onResult: (result: STTPartialResult) => void
+  ) {
+    this.words = transcript.split(/\s+/).filter(Boolean);
+  }
+
+  write(samples: Int16Array) {
+    if (this.closed) return;
+    this.sampleCount += samples.length;
+
+    const heard = Math.min(this.words.length, Math.floor((this.sampleCount / this.sampleRate) * 1000 / LOCAL_WORD_MS));
+    if (heard > this.heard) {
+      this.heard = heard;
+      this.onResult({ text: this.words.slice(0, heard).join(" "), isFinal: false });
+    }
+  }
+
+  async finish(): Promise<STTResponse> {
+    if (this.closed) throw new Error("Stream closed");
+    this.closed = true;
+
+    const text = this.words.join(" ");
+    this.onResult({ text, isFinal: true });
+    return { text, duration: this.sampleCount / this.sampleRate, provider: "local" };
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+/**
+ * Whether a provider can transcribe while the user is still speaking.
+ * Others are given the finished clip through callSTT.
+ */
+export function supportsStreamingSTT(provider: string): boolean {
+  const name = provider.toLowerCase();
+  return name === "deepgram" || (name === "local" && !ENV.isProduction);
+}
+
+/** Whether a user may pick this STT provider; the local stand-in is for development only */
+export function isSelectableSTTProvider(provider: string): boolean {
+  const name = provider.toLowerCase();
+  return ["whisper", "openai", "deepgram"].includes(name) || (name === "local" && !ENV.isProduction);
+}
+
+/** Whether a streaming provider needs the user's API key */
+export function streamingSTTNeedsApiKey(provider: string): boolean {
+  return provider.toLowerCase() !== "local";
+}
+
+/**
+ * Open a live transcription with any streaming STT provider
+ */
+export function openSTTStream(
+  request: STTStreamRequest,
+  onResult: (result: STTPartialResult) => void
+): STTStream {
+  const provider = request.provider || "deepgram";
+
+  switch (provider.toLowerCase()) {
+    case "deepgram":
+      return new DeepgramSTTStream(request, onResult);
+
+    case "local":
+      if (ENV.isProduction) break;
+      return new LocalSTTStream(ENV.localSttTranscript, request.sampleRate, onResult);
+  }
+  throw new Error(`Streaming is not supported by STT provider: ${provider}`);
+}
@@ -1,19 +1,62 @@
-export interface TTSRequest {
+import { spawn } from "child_process";
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { ENV } from "../_core/env";
+import { encodeWav } from "@shared/wav";
+import { toSpeechText } from "./speechText";
+import type { LexiconEntry } from "./speechText";
+import { fetchUserServer } from "./network";
+
+/**
+ * How a voice should sound. Each provider maps what it can to its own
+ * controls and ignores the rest; speed works everywhere.
+ */
+export interface VoiceTuning {
+  /** 1 is normal speed */
+  speed?: number;
+  /** 0-1 */
+  stability?: number;
+  /** 0-1, how closely to match the original voice */
+  similarity?: number;
+  /** 0-1, style exaggeration */
+  style?: number;
+  /** Semitones up or down */
+  pitch?: number;
+}
+
+export interface TTSRequest extends VoiceTuning {
   text: string;
   provider?: string;
   voice?: string;
   apiKey?: string;
+  /** Azure Speech endpoint, e.g. https://eastus.tts.speech.microsoft.com */
+  baseUrl?: string;
   model?: string;
-  speed?: number;
+  /** Acting instructions, e.g. "warm, reassuring"; only Hume performs them */
+  description?: string;
+  /** The user's pronunciations */
+  lexicon?: LexiconEntry[];
 }
 
 export interface TTSResponse {
-  audioUrl: string;
+  audio: Uint8Array;
+  mimeType: string;
   provider: string;
   voice: string;
   duration?: number;
 }
 
+function elevenLabsVoiceSettings(request: TTSRequest) {
+  return {
+    stability: request.stability ?? 0.5,
+    similarity_boost: request.similarity ?? 0.75,
+    style: request.style ?? 0.0,
+    use_speaker_boost: true,
+    ...(request.speed ? { speed: request.speed } : {}),
+  };
+}
+
 /**
  * Call ElevenLabs TTS
  */
@@ -34,12 +77,7 @@ async function callElevenLabs(request: TTSRequest): Promise<TTSResponse> {
     body: JSON.stringify({
       text: request.text,
       model_id: model,
-      voice_settings: {
-        stability: 0.5,
-        similarity_boost: 0.75,
-        style: 0.0,
-        use_speaker_boost: true,
-      },
+      voice_settings: elevenLabsVoiceSettings(request),
     }),
   });
 
@@ -48,60 +86,264 @@ async function callElevenLabs(request: TTSRequest): Promise<TTSResponse> {
     throw new Error(`ElevenLabs API error: ${error}`);
   }
 
-  // Get audio as buffer
-  const audioBuffer = await response.arrayBuffer();
-  
-  // In production, upload to S3 and return URL
-  // For now, return a data URL (not recommended for large files)
-  const base64Audio = Buffer.from(audioBuffer).toString('base64');
-  const audioUrl = `data:audio/mpeg;base64,${base64Audio}`;
-
   return {
-    audioUrl,
+    audio: new Uint8Array(await response.arrayBuffer()),
+    mimeType: "audio/mpeg",
     provider: "elevenlabs",
     voice: voiceId,
   };
 }
 
+const HUME_DEFAULT_VOICE = "Ava Song";
+
+/** Voices from Hume's list are referred to by id, library voices can also go by name */
+function humeVoice(voice: string) {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(voice)
+    ? { id: voice }
+    : { name: voice, provider: "HUME_AI" };
+}
+
 /**
- * Call Hume AI TTS (with emotion)
+ * Request Hume Octave speech. The description is passed as acting
+ * instructions for the utterance.
  */
-async function callHume(request: TTSRequest): Promise<TTSResponse> {
+async function requestHume(request: TTSRequest, endpoint: "file" | "stream/file", signal?: AbortSignal) {
   if (!request.apiKey) {
     throw new Error("Hume API key is required");
   }
 
-  // Hume AI TTS endpoint
-  const response = await fetch("https://api.hume.ai/v0/tts/batch", {
+  const response = await fetch(`https://api.hume.ai/v0/tts/${endpoint}`, {
     method: "POST",
     headers: {
       "X-Hume-Api-Key": request.apiKey,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
-      text: request.text,
-      voice: request.voice || "default",
+      utterances: [
+        {
+          text: request.text,
+          voice: humeVoice(request.voice || HUME_DEFAULT_VOICE),
+          ...(request.description ? { description: request.description } : {}),
+          ...(request.speed ? { speed: request.speed } : {}),
+        },
+      ],
+      format: { type: "mp3" },
+      num_generations: 1,
     }),
+    signal,
   });
 
-  if (!response.ok) {
+  if (!response.ok || !response.body) {
     const error = await response.text();
     throw new Error(`Hume API error: ${error}`);
   }
+  return response;
+}
 
-  const data = await response.json();
-
+/**
+ * Call Hume AI Octave TTS (with emotion)
+ */
+async function callHume(request: TTSRequest): Promise<TTSResponse> {
+  const response = await requestHume(request, "file");
   return {
-    audioUrl: data.audio_url || "",
+    audio: new Uint8Array(await response.arrayBuffer()),
+    mimeType: "audio/mpeg",
     provider: "hume",
-    voice: request.voice || "default",
+    voice: request.voice || HUME_DEFAULT_VOICE,
   };
 }
 
 /**
- * Main function to call any TTS provider
+ * Call OpenAI TTS, through the built-in service unless the user has their own key
  */
-export async function callTTS(request: TTSRequest): Promise<TTSResponse> {
+async function callOpenAITTS(request: TTSRequest, signal?: AbortSignal): Promise<Response> {
+  let url: string;
+  let apiKey: string;
+  if (request.apiKey) {
+    url = "https://api.openai.com/v1/audio/speech";
+    apiKey = request.apiKey;
+  } else {
+    if (!ENV.forgeApiUrl || !ENV.forgeApiKey) {
+      throw new Error("OpenAI TTS is not configured");
+    }
+    url = new URL("v1/audio/speech", ENV.forgeApiUrl.endsWith("/") ? ENV.forgeApiUrl : `${ENV.forgeApiUrl}/`).toString();
+    apiKey = ENV.forgeApiKey;
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: request.model || "tts-1",
+      voice: request.voice || "alloy",
+      input: request.text,
+      response_format: "mp3",
+      ...(request.speed ? { speed: request.speed } : {}),
+    }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const error = await response.text();
+    throw new Error(`OpenAI TTS error: ${error}`);
+  }
+  return response;
+}
+
+async function callOpenAI(request: TTSRequest): Promise<TTSResponse> {
+  const response = await callOpenAITTS(request);
+  return {
+    audio: new Uint8Array(await response.arrayBuffer()),
+    mimeType: "audio/mpeg",
+    provider: "openai",
+    voice: request.voice || "alloy",
+  };
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Call Azure Speech TTS
+ */
+async function callAzure(request: TTSRequest): Promise<TTSResponse> {
+  if (!request.apiKey) {
+    throw new Error("Azure Speech API key is required");
+  }
+  if (!request.baseUrl) {
+    throw new Error("Azure Speech region is required");
+  }
+
+  const voice = request.voice || "en-US-JennyNeural";
+  // The language is part of the voice name, e.g. en-US-JennyNeural
+  const language = voice.split("-").slice(0, 2).join("-");
+  const rate = request.speed ? `${Math.round((request.speed - 1) * 100)}%` : "0%";
+  const pitch = request.pitch ? `${request.pitch > 0 ? "+" : ""}${request.pitch}st` : "+0st";
+  // The text is already an SSML fragment (see prepareText)
+  const ssml =
+    `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${language}">` +
+    `<voice name="${escapeXml(voice)}"><prosody rate="${rate}" pitch="${pitch}">${request.text}</prosody></voice>` +
+    `</speak>`;
+
+  const response = await fetchUserServer(`${request.baseUrl.replace(/\/$/, "")}/cognitiveservices/v1`, {
+    method: "POST",
+    headers: {
+      "Ocp-Apim-Subscription-Key": request.apiKey,
+      "Content-Type": "application/ssml+xml",
+      "X-Microsoft-OutputFormat": "audio-24khz-48kbitrate-mono-mp3",
+    },
+    body: ssml,
+  });
+
+  // The endpoint is user-supplied, so its error body isn't passed on
+  if (!response.ok) {
+    throw new Error(`Azure Speech API error: ${response.status} ${response.statusText}`);
+  }
+
+  return {
+    audio: new Uint8Array(await response.arrayBuffer()),
+    mimeType: "audio/mpeg",
+    provider: "azure",
+    voice,
+  };
+}
+
+/**
+ * Run the local Piper binary on CPU. `voice` names a model in the voices
+ * directory (e.g. en_US-lessac-medium for en_US-lessac-medium.onnx).
+ */
+async function callPiper(request: TTSRequest, signal?: AbortSignal): Promise<TTSResponse> {
+  if (!ENV.piperVoicesDir) {
+    throw new Error("Piper is not configured: set PIPER_VOICES_DIR");
+  }
+
+  const voice = request.voice || "en_US-lessac-medium";
+  const modelPath = path.join(ENV.piperVoicesDir, `${path.basename(voice)}.onnx`);
+  if (!existsSync(modelPath)) {
+    throw new Error(`Piper voice not found: ${voice}`);
+  }
+  const config = JSON.parse(await readFile(`${modelPath}.json`, "utf8"));
+  const sampleRate: number = config.audio?.sample_rate ?? 22050;
+
+  const args = ["--model", modelPath, "--output-raw", "--quiet"];
+  if (request.speed) {
+    // Piper stretches phonemes, so a faster voice has a shorter length scale
+    args.push("--length_scale", String(1 / request.speed));
+  }
+
+  const pcm = await new Promise<Buffer>((resolve, reject) => {
+    const piper = spawn(ENV.piperPath, args, { signal });
+    const chunks: Buffer[] = [];
+    let stderr = "";
+    piper.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    piper.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    piper.on("error", reject);
+    piper.on("close", code => {
+      if (code === 0) {
+        resolve(Buffer.concat(chunks));
+      } else {
+        reject(new Error(`Piper exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+    piper.stdin.end(request.text.replace(/\s+/g, " "));
+  });
+
+  const samples = new Int16Array(Math.floor(pcm.length / 2));
+  for (let i = 0; i < samples.length; i++) samples[i] = pcm.readInt16LE(i * 2);
+
+  return {
+    audio: encodeWav(samples, sampleRate),
+    mimeType: "audio/wav",
+    provider: "piper",
+    voice,
+  };
+}
+
+/**
+ * USD per minute of speech. Providers bill per character; these are their
+ * list prices at about 900 characters a minute. Piper runs locally.
+ */
+const TTS_PRICE_PER_MINUTE: Record<string, number> = {
+  elevenlabs: 0.18,
+  hume: 0.09,
+  openai: 0.0135,
+  azure: 0.0144,
+  piper: 0,
+};
+
+/**
+ * Estimated USD cost of synthesized speech; unknown providers are charged
+ * at the highest rate rather than as free
+ */
+export function estimateTTSCost(provider: string, seconds: number): number {
+  return (seconds / 60) * (TTS_PRICE_PER_MINUTE[provider.toLowerCase()] ?? TTS_PRICE_PER_MINUTE.elevenlabs);
+}
+
+/**
+ * Audio format a provider produces. Piper writes WAV; the cloud providers
+ * are asked for MP3.
+ */
+export function getTTSMimeType(provider: string): string {
+  return provider.toLowerCase() === "piper" ? "audio/wav" : "audio/mpeg";
+}
+
+/** Providers that work without an API key of the user's own */
+export function ttsNeedsApiKey(provider: string): boolean {
+  return !["openai", "piper"].includes(provider.toLowerCase());
+}
+
+async function synthesize(request: TTSRequest): Promise<TTSResponse> {
   const provider = request.provider || "elevenlabs";
 
   switch (provider.toLowerCase()) {
@@ -110,16 +352,246 @@ export async function callTTS(request: TTSRequest): Promise<TTSResponse> {
     
     case "hume":
       return callHume(request);
+
+    case "openai":
+      return callOpenAI(request);
+
+    case "azure":
+      return callAzure(request);
+
+    case "piper":
+      return callPiper(request);
     
     default:
       throw new Error(`Unsupported TTS provider: ${provider}`);
   }
 }
 
+// ============ Text ============
+
+/** ElevenLabs models that read <phoneme> tags */
+const ELEVENLABS_PHONEME_MODELS = new Set(["eleven_flash_v2", "eleven_turbo_v2", "eleven_monolingual_v1"]);
+
+/**
+ * The request with its text normalized for speaking, in the markup the
+ * provider understands: an SSML fragment for Azure, phoneme tags where
+ * supported, plain text otherwise
+ */
+function prepareText(request: TTSRequest): TTSRequest {
+  const provider = (request.provider || "elevenlabs").toLowerCase();
+  const model = request.model || (provider === "elevenlabs" ? "eleven_turbo_v2_5" : "");
+  const text = toSpeechText(request.text, {
+    lexicon: request.lexicon,
+    ssml: provider === "azure",
+    phonemes: provider === "azure" || (provider === "elevenlabs" && ELEVENLABS_PHONEME_MODELS.has(model)),
+  });
+  return { ...request, text };
+}
+
+/**
+ * Main function to call any TTS provider
+ */
+export async function callTTS(request: TTSRequest): Promise<TTSResponse> {
+  const { request: native, stretch } = splitSpeed(prepareText(request));
+  if (!native.text) {
+    throw new Error("Nothing to speak in this text");
+  }
+  const result = await synthesize(native);
+  if (stretch === 1) return result;
+  return { ...result, audio: await timeStretch(result.audio, result.mimeType, stretch) };
+}
+
+// ============ Speed ============
+
+/** Speeds each provider can apply itself */
+const NATIVE_SPEED_RANGE: Record<string, [number, number]> = {
+  elevenlabs: [0.7, 1.2],
+  openai: [0.25, 4],
+  azure: [0.5, 2],
+  hume: [0.5, 2],
+  piper: [0.25, 4],
+};
+
+/**
+ * The request with the speed the provider can manage, and how much faster
+ * or slower the audio has to be stretched afterwards to make up the rest
+ */
+function splitSpeed(request: TTSRequest): { request: TTSRequest; stretch: number } {
+  if (!request.speed || request.speed === 1) return { request, stretch: 1 };
+
+  const range = NATIVE_SPEED_RANGE[(request.provider || "elevenlabs").toLowerCase()];
+  const native = range ? Math.min(Math.max(request.speed, range[0]), range[1]) : 1;
+  const stretch = request.speed / native;
+  return {
+    request: { ...request, speed: native === 1 ? undefined : native },
+    stretch: Math.abs(stretch - 1) < 0.01 ? 1 : stretch,
+  };
+}
+
+/**
+ * ffmpeg's atempo filter only takes factors from 0.5 to 2, so larger changes
+ * are made as a chain of steps
+ */
+function atempoFilter(factor: number): string {
+  const steps: number[] = [];
+  let rest = factor;
+  while (rest > 2) {
+    steps.push(2);
+    rest /= 2;
+  }
+  while (rest < 0.5) {
+    steps.push(0.5);
+    rest /= 0.5;
+  }
+  steps.push(rest);
+  return steps.map(step => `atempo=${step}`).join(",");
+}
+
+/**
+ * Speed audio up or down without changing its pitch, using ffmpeg. If
+ * ffmpeg isn't available the audio is returned at its original speed.
+ */
+async function timeStretch(audio: Uint8Array, mimeType: string, factor: number): Promise<Uint8Array> {
+  const format = mimeType === "audio/wav" ? ["-f", "wav", "-acodec", "pcm_s16le"] : ["-f", "mp3"];
+  const args = ["-hide_banner", "-loglevel", "error", "-i", "pipe:0", "-filter:a", atempoFilter(factor), ...format, "pipe:1"];
+
+  try {
+    return await new Promise<Uint8Array>((resolve, reject) => {
+      const ffmpeg = spawn(ENV.ffmpegPath, args);
+      const chunks: Buffer[] = [];
+      let stderr = "";
+      ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+      ffmpeg.stderr.on("data", (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+      ffmpeg.on("error", reject);
+      ffmpeg.on("close", code => {
+        if (code === 0) {
+          resolve(Buffer.concat(chunks));
+        } else {
+          reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+      ffmpeg.stdin.on("error", () => {}); // Reported by "close"
+      ffmpeg.stdin.end(audio);
+    });
+  } catch (error) {
+    console.warn("[TTS] Could not change speech speed:", error);
+    return audio;
+  }
+}
+
+// ============ Streaming ============
+
+/**
+ * Stream ElevenLabs audio as MP3 chunks while it's being synthesized
+ */
+async function* streamElevenLabs(request: TTSRequest, signal?: AbortSignal): AsyncGenerator<Uint8Array> {
+  if (!request.apiKey) {
+    throw new Error("ElevenLabs API key is required");
+  }
+
+  const voiceId = request.voice || "ZF6FPAbjXT4488VcRRnw"; // Default voice
+  const model = request.model || "eleven_turbo_v2_5";
+
+  const response = await fetch(
+    `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream?output_format=mp3_44100_128`,
+    {
+      method: "POST",
+      headers: {
+        "xi-api-key": request.apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        text: request.text,
+        model_id: model,
+        voice_settings: elevenLabsVoiceSettings(request),
+      }),
+      signal,
+    }
+  );
+
+  if (!response.ok || !response.body) {
+    const error = await response.text();
+    throw new Error(`ElevenLabs API error: ${error}`);
+  }
+
+  yield* readBody(response);
+}
+
+/**
+ * Chunks of a response body as they arrive
+ */
+async function* readBody(response: Response): AsyncGenerator<Uint8Array> {
+  const reader = response.body!.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield value;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Stream audio for `request.text` in the provider's format (see
+ * getTTSMimeType). Providers without a streaming API are synthesized in one
+ * go and yielded as a single chunk, as is audio that has to be time-stretched.
+ * Yields nothing if the text has nothing to say once normalized.
+ */
+export async function* streamTTS(request: TTSRequest, signal?: AbortSignal): AsyncGenerator<Uint8Array> {
+  const { request: native, stretch } = splitSpeed(prepareText(request));
+  // e.g. a sentence that was only a code block
+  if (!native.text) return;
+
+  if (stretch === 1) {
+    yield* streamProvider(native, signal);
+    return;
+  }
+
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of streamProvider(native, signal)) chunks.push(chunk);
+  const mimeType = getTTSMimeType(request.provider || "elevenlabs");
+  yield await timeStretch(Buffer.concat(chunks), mimeType, stretch);
+}
+
+async function* streamProvider(request: TTSRequest, signal?: AbortSignal): AsyncGenerator<Uint8Array> {
+  const provider = request.provider || "elevenlabs";
+
+  switch (provider.toLowerCase()) {
+    case "elevenlabs":
+      yield* streamElevenLabs(request, signal);
+      return;
+
+    case "openai":
+      yield* readBody(await callOpenAITTS(request, signal));
+      return;
+
+    case "hume":
+      yield* readBody(await requestHume(request, "stream/file", signal));
+      return;
+
+    case "piper":
+      yield (await callPiper(request, signal)).audio;
+      return;
+
+    default: {
+      const result = await synthesize(request);
+      yield result.audio;
+    }
+  }
+}
+
 /**
  * Get available voices for a provider
  */
-export async function getAvailableVoices(provider: string, apiKey?: string): Promise<Array<{ id: string; name: string }>> {
+export async function getAvailableVoices(
+  provider: string,
+  apiKey?: string,
+  baseUrl?: string
+): Promise<Array<{ id: string; name: string }>> {
   switch (provider.toLowerCase()) {
     case "elevenlabs":
       if (!apiKey) return [];
@@ -142,18 +614,132 @@ export async function getAvailableVoices(provider: string, apiKey?: string): Pro
         return [];
       }
     
-    case "hume":
-      return [
-        { id: "default", name: "Default" },
-        { id: "expressive", name: "Expressive" },
-        { id: "calm", name: "Calm" },
-      ];
+    case "hume": {
+      if (!apiKey) return [];
+
+      // Hume's voice library, then the user's own saved voices
+      const voices: Array<{ id: string; name: string }> = [];
+      for (const voiceProvider of ["HUME_AI", "CUSTOM_VOICE"]) {
+        try {
+          const response = await fetch(
+            `https://api.hume.ai/v0/tts/voices?provider=${voiceProvider}&page_size=100`,
+            {
+              headers: {
+                "X-Hume-Api-Key": apiKey,
+              },
+            }
+          );
+
+          if (!response.ok) continue;
+
+          const data = await response.json();
+          voices.push(...(data.voices_page ?? []).map((v: any) => ({ id: v.id, name: v.name })));
+        } catch {
+          // Skip this list
+        }
+      }
+      return voices;
+    }
+
+    case "openai":
+      return ["alloy", "ash", "coral", "echo", "fable", "nova", "onyx", "sage", "shimmer"].map(id => ({
+        id,
+        name: id[0].toUpperCase() + id.slice(1),
+      }));
+
+    case "azure":
+      if (!apiKey || !baseUrl) return [];
+
+      try {
+        const response = await fetchUserServer(`${baseUrl.replace(/\/$/, "")}/cognitiveservices/voices/list`, {
+          headers: {
+            "Ocp-Apim-Subscription-Key": apiKey,
+          },
+        });
+
+        if (!response.ok) return [];
+
+        const data = await response.json();
+        return data.map((v: any) => ({
+          id: v.ShortName,
+          name: `${v.DisplayName} (${v.Locale})`,
+        }));
+      } catch {
+        return [];
+      }
+
+    case "piper":
+      if (!ENV.piperVoicesDir) return [];
+
+      try {
+        const files = await readdir(ENV.piperVoicesDir);
+        return files
+          .filter(file => file.endsWith(".onnx"))
+          .map(file => {
+            const id = file.slice(0, -".onnx".length);
+            return { id, name: id };
+          });
+      } catch {
+        return [];
+      }
     
     default:
       return [];
   }
 }
 
+const VERIFY_TIMEOUT_MS = 8000;
+
+/**
+ * Check a TTS provider's credentials with a cheap authenticated call
+ * (listing voices), throwing the provider's error if they're rejected
+ */
+export async function verifyTTSCredentials(provider: string, apiKey?: string, baseUrl?: string): Promise<void> {
+  let url: string;
+  let headers: Record<string, string>;
+
+  switch (provider.toLowerCase()) {
+    case "elevenlabs":
+      url = "https://api.elevenlabs.io/v1/voices";
+      headers = { "xi-api-key": apiKey ?? "" };
+      break;
+
+    case "hume":
+      url = "https://api.hume.ai/v0/tts/voices?provider=HUME_AI&page_size=1";
+      headers = { "X-Hume-Api-Key": apiKey ?? "" };
+      break;
+
+    case "azure":
+      if (!baseUrl) {
+        throw new Error("Azure Speech region is required");
+      }
+      url = `${baseUrl.replace(/\/$/, "")}/cognitiveservices/voices/list`;
+      headers = { "Ocp-Apim-Subscription-Key": apiKey ?? "" };
+      break;
+
+    case "piper":
+      if (!ENV.piperVoicesDir || !existsSync(ENV.piperVoicesDir)) {
+        throw new Error("Piper voices directory is not configured");
+      }
+      return;
+
+    default:
+      throw new Error(`Unsupported TTS provider: ${provider}`);
+  }
+
+  if (!apiKey) {
+    throw new Error(`${getTTSProviderName(provider)} API key is required`);
+  }
+  // Azure's endpoint is user-supplied, so it's checked first and only its status is reported
+  const userServer = provider.toLowerCase() === "azure";
+  const init = { headers, signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS) };
+  const response = userServer ? await fetchUserServer(url, init) : await fetch(url, init);
+  if (!response.ok) {
+    const error = userServer ? response.statusText : await response.text();
+    throw new Error(`${getTTSProviderName(provider)} API error: ${response.status} ${error}`);
+  }
+}
+
 /**
  * Get provider display name
  */
@@ -162,6 +748,8 @@ export function getTTSProviderName(provider: string): string {
     elevenlabs: "ElevenLabs",
     hume: "Hume AI",
     openai: "OpenAI TTS",
+    azure: "Azure Speech",
+    piper: "Piper (local)",
   };
   return names[provider.toLowerCase()] || provider;
 }
@@ -4,14 +4,98 @@ import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import * as db from "./db";
-import { invokeLLM } from "./_core/llm";
-import { transcribeAudio } from "./_core/voiceTranscription";
-import { callLLM, getAvailableModels, getProviderName } from "./providers/llm";
-import { callSTT, getAvailableSTTModels, getSTTProviderName } from "./providers/stt";
-import { callTTS, getAvailableVoices, getTTSProviderName } from "./providers/tts";
+import { CATALOG_PROVIDERS, getProviderCatalog } from "./providers/catalog";
+import type { ModelInfo } from "./providers/catalog";
+import { getAvailableSTTModels, getSTTProviderName, isSelectableSTTProvider } from "./providers/stt";
+import { getAvailableVoices, getTTSProviderName } from "./providers/tts";
+import { selectProviderConfig, verifyProviderCredentials } from "./providers/credentials";
 import { storagePut } from "./storage";
+import { prepareChatTurn, runAssistantTurn, saveAssistantReply } from "./chat";
+import { search } from "./search";
+import {
+  requireBudget,
+  requireConversation,
+  requireMessage,
+  requirePronunciation,
+  requireProviderConfig,
+  requireVoiceProfile,
+} from "./ownership";
+import { maskApiKey } from "./secrets";
+import { enforceBudgets, getBudgetStatuses } from "./budgets";
+import {
+  getCachedSpeech,
+  joinSpeech,
+  resolveSTTOptions,
+  resolveTTSOptions,
+  storeSpeech,
+  synthesizeToStorage,
+  transcribeForUser,
+  trimRecording,
+} from "./voice/speech";
+import { SentenceQueue, SentenceSplitter, synthesizeSentences } from "./voice/sentences";
 import { TRPCError } from "@trpc/server";
 
+// Voice profile tuning; null clears a value so the provider's default is used
+const voiceTuningInput = {
+  speed: z.number().int().min(50).max(200).nullable().optional(), // percentage
+  stability: z.number().int().min(0).max(100).nullable().optional(),
+  similarity: z.number().int().min(0).max(100).nullable().optional(),
+  style: z.number().int().min(0).max(100).nullable().optional(),
+  pitch: z.number().int().min(-12).max(12).nullable().optional(), // semitones
+};
+
+const sttProviderInput = z.string().refine(isSelectableSTTProvider, "Unknown speech-to-text provider");
+
+/** Test a user's saved provider config and record the result on it */
+async function checkProviderConfig(userId: number, id: number) {
+  const config = await requireProviderConfig(userId, id);
+  const check = await verifyProviderCredentials(config);
+  await db.updateProviderConfig(id, userId, check);
+  return check;
+}
+
+// A new message, an edit of a user message (`message` + `editMessageId`) or a
+// regenerated reply (`regenerateMessageId`), optionally on another model
+const chatTurnInput = z.object({
+  conversationId: z.number(),
+  message: z.string().min(1).optional(),
+  editMessageId: z.number().optional(),
+  regenerateMessageId: z.number().optional(),
+  override: z.object({
+    provider: z.string(),
+    model: z.string().min(1),
+  }).optional(),
+}).refine(input => input.regenerateMessageId !== undefined || input.message !== undefined, {
+  message: "A message is required unless regenerating a reply",
+});
+
+// The subscription link reconnects and runs the whole procedure again on these
+const RETRIED_ERROR_CODES = new Set<TRPCError["code"]>([
+  "INTERNAL_SERVER_ERROR",
+  "BAD_GATEWAY",
+  "SERVICE_UNAVAILABLE",
+  "GATEWAY_TIMEOUT",
+]);
+
+/** A subscription failure the client won't retry, so work already paid for isn't repeated */
+function finalSubscriptionError(error: unknown): TRPCError {
+  if (error instanceof TRPCError && !RETRIED_ERROR_CODES.has(error.code)) return error;
+  return new TRPCError({
+    code: "PRECONDITION_FAILED",
+    message: error instanceof Error ? error.message : String(error),
+    cause: error,
+  });
+}
+
+// Spoken audio is kept on assistant replies only; user messages keep their recording
+async function getSpeakableMessage(userId: number, messageId: number) {
+  const { message } = await requireMessage(userId, messageId);
+  if (message.role !== "assistant") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Only assistant replies can be spoken" });
+  }
+  return message;
+}
+
 export const appRouter = router({
   system: systemRouter,
   
@@ -45,11 +129,7 @@ export const appRouter = router({
     get: protectedProcedure
       .input(z.object({ id: z.number() }))
       .query(async ({ ctx, input }) => {
-        const conversation = await db.getConversationById(input.id);
-        if (!conversation || conversation.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND" });
-        }
-        return conversation;
+        return requireConversation(ctx.user.id, input.id);
       }),
 
     update: protectedProcedure
@@ -60,25 +140,69 @@ export const appRouter = router({
         llmModel: z.string().optional(),
         temperature: z.number().min(0).max(200).optional(),
         systemPrompt: z.string().optional(),
+        fallbackProviders: z.array(z.string()).max(5).nullable().optional(),
+        providerConfigId: z.number().nullable().optional(), // null uses the provider's default key
       }))
       .mutation(async ({ ctx, input }) => {
-        const conversation = await db.getConversationById(input.id);
-        if (!conversation || conversation.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND" });
+        const conversation = await requireConversation(ctx.user.id, input.id);
+        if (input.providerConfigId != null) {
+          const config = await requireProviderConfig(ctx.user.id, input.providerConfigId);
+          if (config.provider !== (input.llmProvider ?? conversation.llmProvider)) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "API key is not for this conversation's provider" });
+          }
         }
         const { id, ...updateData } = input;
-        await db.updateConversation(input.id, updateData);
+        await db.updateConversation(input.id, ctx.user.id, updateData);
         return { success: true };
       }),
 
+    // New conversation with the same settings and the thread up to messageId
+    fork: protectedProcedure
+      .input(z.object({
+        id: z.number(),
+        messageId: z.number(),
+        title: z.string().min(1).max(255).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const conversation = await requireConversation(ctx.user.id, input.id);
+
+        // Empty when the message isn't part of this conversation
+        const thread = await db.getMessageThread(conversation.id, input.messageId);
+        if (thread.length === 0) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Message not found" });
+        }
+
+        const id = await db.createConversation({
+          userId: ctx.user.id,
+          title: input.title || `${conversation.title} (fork)`.slice(0, 255),
+          systemPrompt: conversation.systemPrompt,
+          llmProvider: conversation.llmProvider,
+          llmModel: conversation.llmModel,
+          temperature: conversation.temperature,
+          fallbackProviders: conversation.fallbackProviders,
+          providerConfigId: conversation.providerConfigId,
+          parentConversationId: conversation.id,
+          forkedFromMessageId: input.messageId,
+        });
+        const messageIds = await db.copyMessages(id, thread);
+
+        // Keep the rolling summary if it covers part of the copied thread
+        const summarizedIndex = thread.findIndex(m => m.id === conversation.summarizedThroughMessageId);
+        if (summarizedIndex !== -1) {
+          await db.updateConversation(id, ctx.user.id, {
+            summary: conversation.summary,
+            summarizedThroughMessageId: messageIds[summarizedIndex],
+          });
+        }
+
+        return { id };
+      }),
+
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        const conversation = await db.getConversationById(input.id);
-        if (!conversation || conversation.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND" });
-        }
-        await db.deleteConversation(input.id);
+        await requireConversation(ctx.user.id, input.id);
+        await db.deleteConversation(input.id, ctx.user.id);
         return { success: true };
       }),
   }),
@@ -88,11 +212,38 @@ export const appRouter = router({
     list: protectedProcedure
       .input(z.object({ conversationId: z.number() }))
       .query(async ({ ctx, input }) => {
-        const conversation = await db.getConversationById(input.conversationId);
-        if (!conversation || conversation.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND" });
+        const conversation = await requireConversation(ctx.user.id, input.conversationId);
+        // Only the active branch; siblingIds lists each message's other versions
+        return db.getMessageThread(input.conversationId, conversation.activeLeafId);
+      }),
+
+    // Full-text search over message content and conversation titles
+    search: protectedProcedure
+      .input(z.object({
+        query: z.string().min(1).max(200),
+        from: z.date().optional(),
+        to: z.date().optional(),
+        provider: z.string().optional(),
+        role: z.enum(["user", "assistant"]).optional(),
+        conversationId: z.number().optional(),
+        limit: z.number().min(1).max(50).default(20),
+        offset: z.number().min(0).default(0),
+      }))
+      .query(async ({ ctx, input }) => {
+        if (input.conversationId !== undefined) {
+          await requireConversation(ctx.user.id, input.conversationId);
         }
-        return db.getConversationMessages(input.conversationId);
+        const { query, limit, offset, ...filters } = input;
+        return search({ userId: ctx.user.id, query, filters, limit, offset });
+      }),
+
+    // Show another version of a message, along with the replies that followed it
+    switchVersion: protectedProcedure
+      .input(z.object({ messageId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const { message, conversation } = await requireMessage(ctx.user.id, input.messageId);
+        await db.setActiveBranch(conversation.id, message.id);
+        return { success: true };
       }),
 
     create: protectedProcedure
@@ -106,10 +257,7 @@ export const appRouter = router({
         tokenCount: z.number().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const conversation = await db.getConversationById(input.conversationId);
-        if (!conversation || conversation.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND" });
-        }
+        await requireConversation(ctx.user.id, input.conversationId);
         const id = await db.createMessage(input);
         return { id };
       }),
@@ -117,7 +265,8 @@ export const appRouter = router({
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        await db.deleteMessage(input.id);
+        await requireMessage(ctx.user.id, input.id);
+        await db.deleteMessage(input.id, ctx.user.id);
         return { success: true };
       }),
   }),
@@ -125,111 +274,160 @@ export const appRouter = router({
   // ============ AI Chat ============
   chat: router({
     send: protectedProcedure
-      .input(z.object({
-        conversationId: z.number(),
-        message: z.string(),
-      }))
+      .input(chatTurnInput)
       .mutation(async ({ ctx, input }) => {
-        const conversation = await db.getConversationById(input.conversationId);
-        if (!conversation || conversation.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND" });
-        }
+        const conversation = await requireConversation(ctx.user.id, input.conversationId);
+        const turn = await prepareChatTurn(ctx.user, conversation, input);
+        // Replaced by whichever provider actually answers
+        let { provider, model, providerConfigId } = turn.targets[0];
 
-        // Get conversation history
-        const history = await db.getConversationMessages(input.conversationId);
-        
-        // Save user message
-        await db.createMessage({
-          conversationId: input.conversationId,
-          role: "user",
-          content: input.message,
-        });
-
-        // Get provider config if needed
-        const providerConfigs = await db.getUserProviderConfigs(ctx.user.id);
-        const provider = conversation.llmProvider || "openai";
-        const model = conversation.llmModel || "gpt-4";
-        const temperature = (conversation.temperature || 70) / 100;
-        
-        const providerConfig = providerConfigs.find(p => p.provider === provider && p.isActive);
-        const apiKey = providerConfig?.apiKey;
-
-        // Build messages for AI
-        const systemPrompt = conversation.systemPrompt || "You are a helpful AI assistant with voice capabilities. Provide clear, concise, and helpful responses.";
-        const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
-          { role: "system", content: systemPrompt },
-          ...history.map(m => ({
-            role: m.role as "user" | "assistant" | "system",
-            content: m.content,
-          })),
-          { role: "user", content: input.message },
-        ];
-
-        // Call AI with multi-provider support
+        // Call AI with multi-provider support, running any tools it asks for
         let assistantMessage: string;
         let tokenCount = 0;
+        let cost = 0;
         
         try {
-          if (provider === "openai" && !apiKey) {
-            // Use built-in OpenAI
-            const response = await invokeLLM({ messages });
-            const messageContent = response.choices[0]?.message?.content;
-            assistantMessage = typeof messageContent === 'string' 
-              ? messageContent 
-              : "I apologize, but I couldn't generate a response.";
-            tokenCount = response.usage?.total_tokens || 0;
-          } else {
-            // Use multi-provider system
-            const response = await callLLM({
-              messages,
-              provider,
-              model,
-              apiKey,
-              temperature,
-              maxTokens: 2000,
-            });
-            assistantMessage = response.content;
-            tokenCount = response.usage?.total_tokens || 0;
+          const run = runAssistantTurn({
+            user: ctx.user,
+            conversationId: input.conversationId,
+            turn,
+          });
+          let step = await run.next();
+          while (!step.done) {
+            step = await run.next();
           }
+          assistantMessage = step.value.content || "I apologize, but I couldn't generate a response.";
+          ({ tokenCount, cost, provider, model, providerConfigId } = step.value);
         } catch (error: any) {
           assistantMessage = `Error: ${error.message}. Please check your provider configuration.`;
         }
 
-        // Save assistant message
-        const messageId = await db.createMessage({
+        const messageId = await saveAssistantReply({
+          userId: ctx.user.id,
           conversationId: input.conversationId,
-          role: "assistant",
           content: assistantMessage,
           provider,
           model,
           tokenCount,
-        });
-
-        // Track usage
-        await db.trackUsage({
-          userId: ctx.user.id,
-          date: new Date(),
-          provider,
-          requestType: "text",
-          tokenCount,
+          cost,
+          providerConfigId,
         });
 
         return {
           messageId,
           content: assistantMessage,
           tokenCount,
+          provider,
+          model,
+          budgetWarnings: turn.budgetWarnings,
         };
       }),
     
+    // Stream the reply token by token; the final message is saved once the stream ends
+    stream: protectedProcedure
+      .input(chatTurnInput)
+      .subscription(async function* ({ ctx, input, signal }) {
+        const conversation = await requireConversation(ctx.user.id, input.conversationId);
+
+        // Once the user's message is saved and the model asked, a retry would do both again
+        try {
+          const turn = await prepareChatTurn(ctx.user, conversation, input);
+          for (const warning of turn.budgetWarnings) {
+            yield { type: "budget_warning" as const, message: warning };
+          }
+          // Replaced by whichever provider actually answers
+          let { provider, model, providerConfigId } = turn.targets[0];
+
+          let assistantMessage = "";
+          let tokenCount = 0;
+          let cost = 0;
+
+          try {
+            const run = runAssistantTurn({
+              user: ctx.user,
+              conversationId: input.conversationId,
+              turn,
+              signal,
+            });
+
+            let step = await run.next();
+            while (!step.done) {
+              const event = step.value;
+              if (event.type === "delta") {
+                assistantMessage += event.content;
+              } else if (event.type === "tool_call") {
+                // Text before a tool call is saved with the call itself
+                assistantMessage = "";
+              }
+              yield event;
+              step = await run.next();
+            }
+            ({ tokenCount, cost, provider, model, providerConfigId } = step.value);
+          } catch (error: any) {
+            if (signal?.aborted) {
+              // Client went away; keep whatever was generated so far
+              assistantMessage = assistantMessage || "Response cancelled.";
+            } else {
+              assistantMessage = assistantMessage
+                ? `${assistantMessage}\n\nError: ${error.message}`
+                : `Error: ${error.message}. Please check your provider configuration.`;
+            }
+          }
+
+          if (!assistantMessage) {
+            assistantMessage = "I apologize, but I couldn't generate a response.";
+          }
+
+          const messageId = await saveAssistantReply({
+            userId: ctx.user.id,
+            conversationId: input.conversationId,
+            content: assistantMessage,
+            provider,
+            model,
+            tokenCount,
+            cost,
+            providerConfigId,
+          });
+
+          yield {
+            type: "done" as const,
+            messageId,
+            content: assistantMessage,
+            tokenCount,
+            provider,
+            model,
+          };
+        } catch (error) {
+          throw finalSubscriptionError(error);
+        }
+      }),
+    
     // Get available providers and models
-    getProviders: protectedProcedure.query(() => {
-      return [
-        { id: "openai", name: "OpenAI", models: getAvailableModels("openai") },
-        { id: "openrouter", name: "OpenRouter", models: getAvailableModels("openrouter") },
-        { id: "mistral", name: "Mistral AI", models: getAvailableModels("mistral") },
-        { id: "anthropic", name: "Anthropic Claude", models: getAvailableModels("anthropic") },
-      ];
-    }),
+    getProviders: protectedProcedure
+      .input(z.object({ refresh: z.boolean().optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        const providerConfigs = await db.getUserProviderConfigs(ctx.user.id);
+
+        const catalogs = await Promise.all(
+          CATALOG_PROVIDERS.map(provider => {
+            const config = selectProviderConfig(providerConfigs, provider);
+            return getProviderCatalog(
+              provider,
+              { apiKey: config?.apiKey || undefined, baseUrl: config?.baseUrl || undefined },
+              { refresh: input?.refresh }
+            ).then(catalog => {
+              // Self-hosted configs can list extra models the server doesn't report
+              const extraModels = (config?.models ?? [])
+                .filter(id => !catalog.models.some(m => m.id === id))
+                .map((id): ModelInfo => ({ id }));
+              return { ...catalog, models: [...catalog.models, ...extraModels] };
+            });
+          })
+        );
+
+        // Self-hosted servers only appear once configured
+        return catalogs.filter(c => c.id !== "openai-compatible" || c.models.length > 0);
+      }),
   }),
 
   // ============ Voice Features ============
@@ -238,63 +436,20 @@ export const appRouter = router({
       .input(z.object({
         audioUrl: z.string(),
         language: z.string().optional(),
-        provider: z.string().optional(),
+        provider: sttProviderInput.optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const settings = await db.getUserSettings(ctx.user.id);
-        const provider = input.provider || settings?.defaultSttProvider || "whisper";
-        
-        // Get provider config if needed
-        const providerConfigs = await db.getUserProviderConfigs(ctx.user.id);
-        const providerConfig = providerConfigs.find(p => p.provider === provider && p.isActive);
-        const apiKey = providerConfig?.apiKey;
+        const { provider } = await resolveSTTOptions(ctx.user.id, input.provider);
+        const budgetWarnings = await enforceBudgets(ctx.user, provider);
 
-        let result;
         try {
-          if (provider === "whisper" && !apiKey) {
-            // Use built-in Whisper
-            const whisperResult = await transcribeAudio({
-              audioUrl: input.audioUrl,
-              language: input.language,
-            });
-
-            if ('error' in whisperResult) {
-              throw new TRPCError({ 
-                code: "INTERNAL_SERVER_ERROR", 
-                message: whisperResult.error 
-              });
-            }
-            result = whisperResult;
-          } else {
-            // Use multi-provider STT
-            result = await callSTT({
-              audioUrl: input.audioUrl,
-              language: input.language,
-              provider,
-              apiKey,
-            });
-          }
+          return { ...(await transcribeForUser(ctx.user.id, input)), budgetWarnings };
         } catch (error: any) {
           throw new TRPCError({ 
             code: "INTERNAL_SERVER_ERROR", 
             message: `Transcription failed: ${error.message}` 
           });
         }
-
-        // Track usage
-        await db.trackUsage({
-          userId: ctx.user.id,
-          date: new Date(),
-          provider: 'provider' in result ? result.provider : provider,
-          requestType: "voice",
-          audioSeconds: Math.ceil((result.duration || 0)),
-        });
-
-        return {
-          text: result.text,
-          language: result.language,
-          duration: result.duration,
-        };
       }),
     
     // Generate TTS audio
@@ -303,33 +458,34 @@ export const appRouter = router({
         text: z.string(),
         provider: z.string().optional(),
         voice: z.string().optional(),
+        // Save the audio on this reply so replaying it is instant
+        messageId: z.number().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const settings = await db.getUserSettings(ctx.user.id);
-        const provider = input.provider || settings?.defaultTtsProvider || "elevenlabs";
-        const voice = input.voice || settings?.defaultTtsVoice;
-        
-        // Get provider config
-        const providerConfigs = await db.getUserProviderConfigs(ctx.user.id);
-        const providerConfig = providerConfigs.find(p => p.provider === provider && p.isActive);
-        
-        if (!providerConfig?.apiKey) {
-          throw new TRPCError({
-            code: "BAD_REQUEST",
-            message: `API key required for ${provider}. Please configure in settings.`,
-          });
+        const message = input.messageId !== undefined
+          ? await getSpeakableMessage(ctx.user.id, input.messageId)
+          : null;
+
+        let options;
+        try {
+          options = await resolveTTSOptions(ctx.user.id, input);
+        } catch (error: any) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
         }
+        const budgetWarnings = await enforceBudgets(ctx.user, options.provider || "elevenlabs");
 
         try {
-          const result = await callTTS({
-            text: input.text,
-            provider,
-            voice: voice || undefined,
-            apiKey: providerConfig.apiKey,
-            model: settings?.defaultTtsModel || undefined,
-          });
+          const result = await synthesizeToStorage(ctx.user.id, input.text, options);
+          if (message) {
+            await db.updateMessage(message.id, ctx.user.id, { audioUrl: result.audioUrl });
+          }
 
-          return result;
+          return {
+            ...result,
+            provider: options.provider,
+            voice: options.voice,
+            budgetWarnings,
+          };
         } catch (error: any) {
           throw new TRPCError({
             code: "INTERNAL_SERVER_ERROR",
@@ -338,6 +494,65 @@ export const appRouter = router({
         }
       }),
     
+    // Speak text a sentence at a time, so playback starts before all of it is synthesized
+    streamSpeech: protectedProcedure
+      .input(z.object({
+        text: z.string().min(1),
+        provider: z.string().optional(),
+        voice: z.string().optional(),
+        // Save the finished audio on this reply so replaying it is instant
+        messageId: z.number().optional(),
+      }))
+      .subscription(async function* ({ ctx, input, signal }) {
+        const message = input.messageId !== undefined
+          ? await getSpeakableMessage(ctx.user.id, input.messageId)
+          : null;
+
+        let options;
+        try {
+          options = await resolveTTSOptions(ctx.user.id, input);
+        } catch (error: any) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
+        for (const warning of await enforceBudgets(ctx.user, options.provider || "elevenlabs")) {
+          yield { type: "budget_warning" as const, message: warning };
+        }
+
+        try {
+          // Spoken before in this voice: no need to synthesize anything
+          let audioUrl = await getCachedSpeech(ctx.user.id, input.text, options);
+          if (!audioUrl) {
+            const splitter = new SentenceSplitter();
+            const sentences = new SentenceQueue();
+            sentences.push(...splitter.push(input.text), ...splitter.flush());
+            sentences.close();
+
+            const clips: Uint8Array[] = [];
+            for await (const sentence of synthesizeSentences(ctx.user.id, sentences, options, signal)) {
+              clips.push(sentence.audio);
+              yield {
+                type: "sentence" as const,
+                index: sentence.index,
+                text: sentence.text,
+                audio: Buffer.from(sentence.audio).toString("base64"),
+              };
+            }
+            if (signal?.aborted || clips.length === 0) return;
+
+            // The whole reply is stored as one file
+            audioUrl = await storeSpeech(ctx.user.id, input.text, options, joinSpeech(clips, options));
+          }
+
+          if (message) {
+            await db.updateMessage(message.id, ctx.user.id, { audioUrl });
+          }
+          yield { type: "saved" as const, audioUrl };
+        } catch (error) {
+          // Sentences already synthesized would be paid for again on a retry
+          throw finalSubscriptionError(error);
+        }
+      }),
+
     // Get available STT providers
     getSttProviders: protectedProcedure.query(() => {
       return [
@@ -351,6 +566,9 @@ export const appRouter = router({
       return [
         { id: "elevenlabs", name: "ElevenLabs" },
         { id: "hume", name: "Hume AI" },
+        { id: "openai", name: "OpenAI TTS" },
+        { id: "azure", name: "Azure Speech" },
+        { id: "piper", name: "Piper (local)" },
       ];
     }),
 
@@ -362,7 +580,21 @@ export const appRouter = router({
       }))
       .mutation(async ({ ctx, input }) => {
         // Decode base64
-        const buffer = Buffer.from(input.audioData, 'base64');
+        let buffer: Buffer = Buffer.from(input.audioData, 'base64');
+
+        // Recordings arrive as WAV, so silence can be trimmed and clips without speech dropped
+        if (input.mimeType === "audio/wav") {
+          let speech: Buffer | null;
+          try {
+            speech = await trimRecording(ctx.user.id, buffer);
+          } catch (error: any) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+          }
+          if (!speech) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "No speech detected" });
+          }
+          buffer = speech;
+        }
         
         // Generate unique file key
         const timestamp = Date.now();
@@ -386,12 +618,14 @@ export const appRouter = router({
       .input(z.object({
         defaultTextProvider: z.string().optional(),
         defaultTextModel: z.string().optional(),
+        fallbackProviders: z.array(z.string()).max(5).optional(),
         defaultVoiceProvider: z.string().optional(),
+        defaultSttProvider: sttProviderInput.optional(),
         defaultTtsProvider: z.string().optional(),
         defaultTtsVoice: z.string().optional(),
         silenceThreshold: z.number().optional(),
         vadSensitivity: z.number().optional(),
-        ttsSpeed: z.number().optional(),
+        ttsSpeed: z.number().int().min(50).max(200).optional(), // percentage
         autoPlayResponses: z.boolean().optional(),
         theme: z.string().optional(),
         language: z.string().optional(),
@@ -405,42 +639,96 @@ export const appRouter = router({
   // ============ Provider Configurations ============
   providers: router({
     list: protectedProcedure.query(async ({ ctx }) => {
-      return db.getUserProviderConfigs(ctx.user.id);
+      const configs = await db.getUserProviderConfigs(ctx.user.id);
+      // Keys never go back to the browser
+      return configs.map(({ apiKey, dataKey, keyVersion, ...config }) => ({
+        ...config,
+        apiKey: maskApiKey(apiKey),
+      }));
     }),
 
     create: protectedProcedure
       .input(z.object({
         provider: z.string(),
         apiKey: z.string(),
+        label: z.string().max(128).optional(),
+        isDefault: z.boolean().optional(),
+        baseUrl: z.string().url().optional(),
+        models: z.array(z.string()).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
+        if (input.provider === "openai-compatible" && !input.baseUrl) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Base URL is required for OpenAI-compatible providers",
+          });
+        }
+        if (input.provider === "azure" && !input.baseUrl) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Region is required for Azure Speech",
+          });
+        }
         const id = await db.createProviderConfig({
           userId: ctx.user.id,
           provider: input.provider,
           apiKey: input.apiKey,
+          label: input.label?.trim() || null,
+          // The first key for a provider becomes its default
+          isDefault: input.isDefault ?? !(await db.getUserProviderConfigs(ctx.user.id)).some(c => c.provider === input.provider),
+          baseUrl: input.baseUrl,
+          models: input.models,
           isActive: true,
         });
-        return { id };
+        const check = await checkProviderConfig(ctx.user.id, id);
+        return { id, ...check };
       }),
 
     update: protectedProcedure
       .input(z.object({
         id: z.number(),
         apiKey: z.string().optional(),
+        label: z.string().max(128).nullable().optional(),
+        baseUrl: z.string().url().optional(),
+        models: z.array(z.string()).optional(),
         isActive: z.boolean().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        await db.updateProviderConfig(input.id, {
+        await requireProviderConfig(ctx.user.id, input.id);
+        await db.updateProviderConfig(input.id, ctx.user.id, {
           apiKey: input.apiKey,
+          label: input.label === undefined ? undefined : input.label?.trim() || null,
+          baseUrl: input.baseUrl,
+          models: input.models,
           isActive: input.isActive,
         });
+        // New credentials invalidate the last check
+        if (input.apiKey !== undefined || input.baseUrl !== undefined) {
+          return { success: true, ...(await checkProviderConfig(ctx.user.id, input.id)) };
+        }
+        return { success: true };
+      }),
+
+    // Use this key for its provider unless a conversation picks another
+    setDefault: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const config = await requireProviderConfig(ctx.user.id, input.id);
+        await db.setDefaultProviderConfig(ctx.user.id, config.provider, config.id);
         return { success: true };
       }),
 
+    test: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        return checkProviderConfig(ctx.user.id, input.id);
+      }),
+
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        await db.deleteProviderConfig(input.id);
+        await requireProviderConfig(ctx.user.id, input.id);
+        await db.deleteProviderConfig(input.id, ctx.user.id);
         return { success: true };
       }),
   }),
@@ -458,6 +746,7 @@ export const appRouter = router({
         voiceId: z.string(),
         sampleUrl: z.string().optional(),
         isDefault: z.boolean().optional(),
+        ...voiceTuningInput,
       }))
       .mutation(async ({ ctx, input }) => {
         const id = await db.createVoiceProfile({
@@ -467,10 +756,63 @@ export const appRouter = router({
         return { id };
       }),
 
+    update: protectedProcedure
+      .input(z.object({
+        id: z.number(),
+        name: z.string().optional(),
+        voiceId: z.string().optional(),
+        isDefault: z.boolean().optional(),
+        ...voiceTuningInput,
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await requireVoiceProfile(ctx.user.id, input.id);
+        const { id, ...data } = input;
+        await db.updateVoiceProfile(id, ctx.user.id, data);
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await requireVoiceProfile(ctx.user.id, input.id);
+        await db.deleteVoiceProfile(input.id, ctx.user.id);
+        return { success: true };
+      }),
+  }),
+
+  // ============ Pronunciations ============
+  pronunciations: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return db.getUserPronunciations(ctx.user.id);
+    }),
+
+    create: protectedProcedure
+      .input(z.object({
+        term: z.string().trim().min(1).max(128),
+        alias: z.string().trim().optional(),
+        phoneme: z.string().trim().optional(), // IPA
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (!input.alias && !input.phoneme) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Give a spoken alias or IPA pronunciation",
+          });
+        }
+        const id = await db.createPronunciation({
+          userId: ctx.user.id,
+          term: input.term,
+          alias: input.alias || null,
+          phoneme: input.phoneme || null,
+        });
+        return { id };
+      }),
+
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        await db.deleteVoiceProfile(input.id);
+        await requirePronunciation(ctx.user.id, input.id);
+        await db.deletePronunciation(input.id, ctx.user.id);
         return { success: true };
       }),
   }),
@@ -481,6 +823,38 @@ export const appRouter = router({
       return db.getUserUsageStats(ctx.user.id);
     }),
   }),
+
+  // ============ Budgets ============
+  budgets: router({
+    // Each budget with its usage so far this period
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const statuses = await getBudgetStatuses(ctx.user.id);
+      return statuses.map(({ budget, used, ratio }) => ({ ...budget, used, ratio }));
+    }),
+
+    create: protectedProcedure
+      .input(z.object({
+        provider: z.string().nullable(), // null covers every provider
+        period: z.enum(["daily", "monthly"]),
+        metric: z.enum(["tokens", "audioMinutes", "dollars"]),
+        amount: z.number().int().positive(), // Tokens, audio minutes or US cents
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const id = await db.createBudget({
+          userId: ctx.user.id,
+          ...input,
+        });
+        return { id };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await requireBudget(ctx.user.id, input.id);
+        await db.deleteBudget(input.id, ctx.user.id);
+        return { success: true };
+      }),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
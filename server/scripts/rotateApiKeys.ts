@@ -0,0 +1,46 @@
+import "dotenv/config";
+import * as db from "../db";
+import { currentKeyVersion, rotateApiKey } from "../secrets";
+
+/**
+ * Re-encrypt every stored provider API key under the current master key:
+ * keys saved before encryption are encrypted, keys under an older master
+ * key get their data key re-wrapped. Keep the old master key configured
+ * until this has run, then it can be removed.
+ *
+ *   pnpm keys:rotate
+ */
+async function main() {
+  const version = currentKeyVersion();
+  if (version === null) {
+    throw new Error("API_KEY_ENCRYPTION_KEYS is not set");
+  }
+
+  const rows = await db.getStoredApiKeys();
+  let rotated = 0;
+  let failed = 0;
+  for (const row of rows) {
+    try {
+      const stored = rotateApiKey(row);
+      if (!stored) continue;
+      await db.saveStoredApiKey(row.id, stored);
+      rotated++;
+    } catch (error) {
+      failed++;
+      console.error(`[Secrets] Could not rotate provider config ${row.id}:`, error);
+    }
+  }
+
+  console.log(`[Secrets] ${rotated} of ${rows.length} API keys moved to master key version ${version}`);
+  if (failed > 0) {
+    console.error(`[Secrets] ${failed} API keys could not be rotated`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error("[Secrets] Rotation failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
@@ -0,0 +1,110 @@
+import * as db from "./db";
+import type { MessageSearchFilters } from "./db";
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 50;
+const MAX_TERMS = 8;
+const TITLE_MATCH_LIMIT = 5;
+
+export interface Snippet {
+  text: string;
+  /** [start, end) character ranges of matched terms within `text` */
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * Split a query into distinct lowercase terms
+ */
+export function parseQuery(query: string): string[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+  return Array.from(new Set(terms)).slice(0, MAX_TERMS);
+}
+
+/**
+ * Cut a window of `content` around the first matched term and mark every
+ * term occurrence inside it
+ */
+export function buildSnippet(content: string, terms: string[]): Snippet {
+  const lower = content.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(index => index !== -1);
+  const firstMatch = positions.length > 0 ? Math.min(...positions) : 0;
+
+  let start = Math.max(0, firstMatch - SNIPPET_LEAD);
+  let end = Math.min(content.length, start + SNIPPET_LENGTH);
+  // Don't cut words in half
+  if (start > 0) {
+    const space = content.indexOf(" ", start);
+    if (space !== -1 && space < firstMatch) start = space + 1;
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < content.length ? "…" : "";
+  const text = prefix + content.slice(start, end).replace(/\s+/g, " ") + suffix;
+
+  const highlights: Array<[number, number]> = [];
+  const lowerText = text.toLowerCase();
+  for (const term of terms) {
+    for (let index = lowerText.indexOf(term); index !== -1; index = lowerText.indexOf(term, index + term.length)) {
+      highlights.push([index, index + term.length]);
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0]);
+
+  // Merge overlapping ranges, e.g. "voice" inside "voices"
+  const merged: Array<[number, number]> = [];
+  for (const range of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+
+  return { text, highlights: merged };
+}
+
+/**
+ * Search message content and conversation titles. Title matches are only
+ * returned with the first page.
+ */
+export async function search(params: {
+  userId: number;
+  query: string;
+  filters: MessageSearchFilters;
+  limit: number;
+  offset: number;
+}) {
+  const terms = parseQuery(params.query);
+  if (terms.length === 0) {
+    return { conversations: [], messages: [], nextOffset: null };
+  }
+
+  const [rows, titleMatches] = await Promise.all([
+    db.searchMessages(params.userId, terms, params.filters, params.limit, params.offset),
+    params.offset === 0 && !params.filters.conversationId
+      ? db.searchConversationTitles(params.userId, terms, TITLE_MATCH_LIMIT)
+      : Promise.resolve([]),
+  ]);
+
+  const hasMore = rows.length > params.limit;
+  const messages = rows.slice(0, params.limit).map(({ content, ...message }) => ({
+    ...message,
+    snippet: buildSnippet(content, terms),
+  }));
+
+  return {
+    conversations: titleMatches.map(c => ({
+      id: c.id,
+      title: c.title,
+      updatedAt: c.updatedAt,
+      snippet: buildSnippet(c.title, terms),
+    })),
+    messages,
+    nextOffset: hasMore ? params.offset + params.limit : null,
+  };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { maskApiKey } from "./secrets";
+
+describe("maskApiKey", () => {
+  it("shows the last 4 characters of a typical key", () => {
+    expect(maskApiKey("sk-proj-abcdef123456")).toBe("••••3456");
+    expect(maskApiKey("123456789")).toBe("••••6789");
+  });
+
+  it("still tells short keys apart by their last 2 characters", () => {
+    expect(maskApiKey("12345678")).toBe("••••78");
+    expect(maskApiKey("abcd")).toBe("••••cd");
+    expect(maskApiKey("abc")).toBe("••••c");
+  });
+
+  it("never shows more than half of a key", () => {
+    expect(maskApiKey("a")).toBe("••••");
+    expect(maskApiKey("")).toBe("");
+  });
+});
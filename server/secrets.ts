@@ -0,0 +1,121 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import type { ProviderConfig } from "../drizzle/schema";
+import { ENV } from "./_core/env";
+
+/**
+ * Envelope encryption for provider API keys. Each key is sealed with its own
+ * random data key (AES-256-GCM), and the data key with a versioned master key
+ * from API_KEY_ENCRYPTION_KEYS ("version:base64key" pairs, comma separated;
+ * the highest version encrypts, older ones only decrypt). Rotating the master
+ * key only re-wraps the data keys.
+ */
+
+/** The encrypted columns of a provider config */
+export type StoredApiKey = Pick<ProviderConfig, "apiKey" | "dataKey" | "keyVersion">;
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+let _masterKeys: Map<number, Buffer> | null = null;
+
+function masterKeys(): Map<number, Buffer> {
+  if (!_masterKeys) {
+    _masterKeys = new Map();
+    for (const entry of ENV.apiKeyEncryptionKeys.split(",").map(e => e.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(":");
+      const version = Number(entry.slice(0, separator));
+      const key = Buffer.from(entry.slice(separator + 1), "base64");
+      if (separator === -1 || !Number.isInteger(version) || version < 1 || key.length !== 32) {
+        throw new Error("API_KEY_ENCRYPTION_KEYS entries must be version:base64 with a 32-byte key");
+      }
+      _masterKeys.set(version, key);
+    }
+  }
+  return _masterKeys;
+}
+
+/** Version of the master key new API keys are encrypted with, or null if none is configured */
+export function currentKeyVersion(): number | null {
+  const versions = Array.from(masterKeys().keys());
+  return versions.length > 0 ? Math.max(...versions) : null;
+}
+
+function masterKey(version: number): Buffer {
+  const key = masterKeys().get(version);
+  if (!key) {
+    throw new Error(`Master key version ${version} is not configured`);
+  }
+  return key;
+}
+
+/** iv + auth tag + ciphertext, base64 */
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const bytes = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, bytes.subarray(0, IV_BYTES));
+  decipher.setAuthTag(bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(bytes.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * Encrypt an API key for storage. Without a master key it's stored as
+ * plaintext in development; production refuses.
+ */
+export function encryptApiKey(apiKey: string): StoredApiKey {
+  const version = currentKeyVersion();
+  if (version === null) {
+    if (ENV.isProduction) {
+      throw new Error("API_KEY_ENCRYPTION_KEYS is not set");
+    }
+    console.warn("[Secrets] API_KEY_ENCRYPTION_KEYS is not set; storing API key unencrypted");
+    return { apiKey, dataKey: null, keyVersion: null };
+  }
+
+  const dataKey = randomBytes(32);
+  return {
+    apiKey: seal(dataKey, Buffer.from(apiKey, "utf8")),
+    dataKey: seal(masterKey(version), dataKey),
+    keyVersion: version,
+  };
+}
+
+/** The plaintext API key; rows without a key version predate encryption */
+export function decryptApiKey(stored: StoredApiKey): string {
+  if (stored.keyVersion === null || !stored.dataKey) return stored.apiKey;
+
+  const dataKey = unseal(masterKey(stored.keyVersion), stored.dataKey);
+  return unseal(dataKey, stored.apiKey).toString("utf8");
+}
+
+/**
+ * The same API key under the current master key, or null if it already is.
+ * Encrypted keys keep their ciphertext and only get their data key
+ * re-wrapped; plaintext rows are encrypted.
+ */
+export function rotateApiKey(stored: StoredApiKey): StoredApiKey | null {
+  const version = currentKeyVersion();
+  if (version === null) {
+    throw new Error("API_KEY_ENCRYPTION_KEYS is not set");
+  }
+  if (stored.keyVersion === version) return null;
+  if (stored.keyVersion === null || !stored.dataKey) return encryptApiKey(stored.apiKey);
+
+  const dataKey = unseal(masterKey(stored.keyVersion), stored.dataKey);
+  return { apiKey: stored.apiKey, dataKey: seal(masterKey(version), dataKey), keyVersion: version };
+}
+
+/**
+ * Enough of a key to recognise it: the last 4 characters, or the last 2 of
+ * a key of 8 or fewer. At most half of a very short key is shown.
+ */
+export function maskApiKey(apiKey: string): string {
+  if (!apiKey) return "";
+  const visible = apiKey.length > 8 ? 4 : Math.min(2, Math.floor(apiKey.length / 2));
+  return `••••${visible > 0 ? apiKey.slice(-visible) : ""}`;
+}
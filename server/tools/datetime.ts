@@ -0,0 +1,31 @@
+import type { AssistantTool } from "./types";
+
+export const currentDateTimeTool: AssistantTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "get_current_datetime",
+      description: "Get the current date and time, optionally in a specific IANA time zone (e.g. \"Europe/Paris\").",
+      parameters: {
+        type: "object",
+        properties: {
+          timeZone: {
+            type: "string",
+            description: "IANA time zone name. Defaults to UTC.",
+          },
+        },
+      },
+    },
+  },
+
+  async execute(args) {
+    const timeZone = typeof args.timeZone === "string" && args.timeZone ? args.timeZone : "UTC";
+    const now = new Date();
+
+    return {
+      iso: now.toISOString(),
+      timeZone,
+      local: now.toLocaleString("en-US", { timeZone, dateStyle: "full", timeStyle: "long" }),
+    };
+  },
+};
@@ -0,0 +1,49 @@
+import { generateImage } from "../_core/imageGeneration";
+import { enforceBudgets } from "../budgets";
+import * as db from "../db";
+import type { AssistantTool } from "./types";
+
+const IMAGE_PROVIDER = "built-in";
+/** Estimated cost of one generated image, in millionths of a dollar */
+const IMAGE_COST_MICROS = 40_000;
+
+export const generateImageTool: AssistantTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "generate_image",
+      description: "Generate an image from a text description. The image is shown to the user automatically; do not repeat the URL.",
+      parameters: {
+        type: "object",
+        properties: {
+          prompt: {
+            type: "string",
+            description: "Detailed description of the image to create.",
+          },
+        },
+        required: ["prompt"],
+      },
+    },
+  },
+
+  async execute(args, context) {
+    const prompt = String(args.prompt ?? "").trim();
+    if (!prompt) throw new Error("prompt is required");
+
+    // Throws once a budget covering images is spent; the model sees the message
+    await enforceBudgets(context.user, IMAGE_PROVIDER);
+
+    const { url } = await generateImage({ prompt });
+    if (!url) throw new Error("Image service returned no image");
+
+    await db.trackUsage({
+      userId: context.user.id,
+      date: new Date(),
+      provider: IMAGE_PROVIDER,
+      requestType: "image",
+      costMicros: IMAGE_COST_MICROS,
+    });
+
+    return { imageUrl: url, prompt };
+  },
+};
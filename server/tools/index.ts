@@ -0,0 +1,47 @@
+import type { Tool, ToolCall } from "../_core/llm";
+import { parseToolArguments } from "../providers/llm";
+import { currentDateTimeTool } from "./datetime";
+import { generateImageTool } from "./image";
+import { findPlacesTool, getDirectionsTool } from "./maps";
+import type { AssistantTool, ToolContext } from "./types";
+import { searchYouTubeTool } from "./youtube";
+
+export type { AssistantTool, ToolContext } from "./types";
+
+const registry = new Map<string, AssistantTool>();
+
+export function registerTool(tool: AssistantTool) {
+  registry.set(tool.definition.function.name, tool);
+}
+
+registerTool(currentDateTimeTool);
+registerTool(findPlacesTool);
+registerTool(getDirectionsTool);
+registerTool(searchYouTubeTool);
+registerTool(generateImageTool);
+
+/**
+ * Definitions of every registered tool, in the format sent to providers
+ */
+export function getToolDefinitions(): Tool[] {
+  return Array.from(registry.values()).map(tool => tool.definition);
+}
+
+/**
+ * Run a tool call requested by the model. Failures are returned as an
+ * `error` payload rather than thrown so the model can recover on its next turn.
+ */
+export async function executeToolCall(call: ToolCall, context: ToolContext): Promise<string> {
+  const tool = registry.get(call.function.name);
+  if (!tool) {
+    return JSON.stringify({ error: `Unknown tool: ${call.function.name}` });
+  }
+
+  try {
+    const result = await tool.execute(parseToolArguments(call.function.arguments), context);
+    return typeof result === "string" ? result : JSON.stringify(result);
+  } catch (error: any) {
+    console.warn(`[Tools] ${call.function.name} failed:`, error);
+    return JSON.stringify({ error: error?.message || String(error) });
+  }
+}
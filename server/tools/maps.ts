@@ -0,0 +1,114 @@
+import { makeRequest } from "../_core/map";
+import type { DirectionsResult, PlacesSearchResult, TravelMode } from "../_core/map";
+import type { AssistantTool } from "./types";
+
+const MAX_PLACES = 5;
+const MAX_STEPS = 12;
+
+const TRAVEL_MODES: TravelMode[] = ["driving", "walking", "bicycling", "transit"];
+
+const stripHtml = (html: string) => html.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+
+export const findPlacesTool: AssistantTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "find_places",
+      description: "Search Google Maps for businesses or points of interest, e.g. \"coffee shops\" near \"Union Square, San Francisco\".",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "What to look for, e.g. \"italian restaurant\" or \"pharmacy\".",
+          },
+          near: {
+            type: "string",
+            description: "Address, neighbourhood or city to search around.",
+          },
+        },
+        required: ["query"],
+      },
+    },
+  },
+
+  async execute(args) {
+    const query = String(args.query ?? "").trim();
+    if (!query) throw new Error("query is required");
+    const near = typeof args.near === "string" && args.near.trim() ? args.near.trim() : undefined;
+
+    const result = await makeRequest<PlacesSearchResult>("/maps/api/place/textsearch/json", {
+      query: near ? `${query} near ${near}` : query,
+    });
+
+    if (result.status !== "OK" && result.status !== "ZERO_RESULTS") {
+      throw new Error(`Places search failed: ${result.status}`);
+    }
+
+    return {
+      places: result.results.slice(0, MAX_PLACES).map(place => ({
+        name: place.name,
+        address: place.formatted_address,
+        rating: place.rating,
+        ratingCount: place.user_ratings_total,
+        status: place.business_status,
+        placeId: place.place_id,
+      })),
+    };
+  },
+};
+
+export const getDirectionsTool: AssistantTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "get_directions",
+      description: "Get a route between two places with distance, travel time and turn-by-turn steps.",
+      parameters: {
+        type: "object",
+        properties: {
+          origin: { type: "string", description: "Starting address or place name." },
+          destination: { type: "string", description: "Destination address or place name." },
+          mode: {
+            type: "string",
+            enum: TRAVEL_MODES,
+            description: "Travel mode. Defaults to driving.",
+          },
+        },
+        required: ["origin", "destination"],
+      },
+    },
+  },
+
+  async execute(args) {
+    const origin = String(args.origin ?? "").trim();
+    const destination = String(args.destination ?? "").trim();
+    if (!origin || !destination) throw new Error("origin and destination are required");
+    const mode = TRAVEL_MODES.includes(args.mode as TravelMode) ? (args.mode as TravelMode) : "driving";
+
+    const result = await makeRequest<DirectionsResult>("/maps/api/directions/json", {
+      origin,
+      destination,
+      mode,
+    });
+
+    const leg = result.routes[0]?.legs[0];
+    if (result.status !== "OK" || !leg) {
+      throw new Error(`No route found (${result.status})`);
+    }
+
+    return {
+      summary: result.routes[0].summary,
+      from: leg.start_address,
+      to: leg.end_address,
+      distance: leg.distance.text,
+      duration: leg.duration.text,
+      mode,
+      steps: leg.steps.slice(0, MAX_STEPS).map(step => ({
+        instruction: stripHtml(step.html_instructions),
+        distance: step.distance.text,
+      })),
+      warnings: result.routes[0].warnings,
+    };
+  },
+};
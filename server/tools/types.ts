@@ -0,0 +1,17 @@
+import type { User } from "../../drizzle/schema";
+import type { Tool } from "../_core/llm";
+
+export interface ToolContext {
+  user: User;
+  conversationId: number;
+}
+
+/**
+ * A function the assistant can call during a chat turn. `definition` is sent
+ * to the model; `execute` runs on the server with the parsed arguments and
+ * returns JSON-serialisable output for the model to read.
+ */
+export interface AssistantTool {
+  definition: Tool;
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<unknown>;
+}
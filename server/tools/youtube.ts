@@ -0,0 +1,44 @@
+import { callDataApi } from "../_core/dataApi";
+import type { AssistantTool } from "./types";
+
+const MAX_VIDEOS = 5;
+
+export const searchYouTubeTool: AssistantTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "search_youtube",
+      description: "Search YouTube for videos and return titles, channels and links.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Search terms." },
+        },
+        required: ["query"],
+      },
+    },
+  },
+
+  async execute(args) {
+    const query = String(args.query ?? "").trim();
+    if (!query) throw new Error("query is required");
+
+    const result = (await callDataApi("Youtube/search", {
+      query: { gl: "US", hl: "en", q: query },
+    })) as { contents?: Array<{ type?: string; video?: any }> };
+
+    const videos = (result.contents ?? [])
+      .filter(item => item.video?.videoId)
+      .slice(0, MAX_VIDEOS)
+      .map(({ video }) => ({
+        title: video.title,
+        channel: video.author?.title,
+        length: video.lengthSeconds,
+        published: video.publishedTimeText,
+        views: video.stats?.views,
+        url: `https://www.youtube.com/watch?v=${video.videoId}`,
+      }));
+
+    return { videos };
+  },
+};
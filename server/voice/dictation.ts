@@ -0,0 +1,129 @@
+import type { WebSocket } from "ws";
+import type { User } from "../../drizzle/schema";
+import { PCM_SAMPLE_RATE } from "@shared/voice";
+import type { DictationClientMessage, DictationServerMessage } from "@shared/voice";
+import { trimSilence } from "@shared/vad";
+import { encodeWav } from "@shared/wav";
+import { enforceBudgets } from "../budgets";
+import * as db from "../db";
+import type { STTStream } from "../providers/stt";
+import { storagePut } from "../storage";
+import { openTranscriptionStream, readPcm, resolveSTTOptions, transcribeForUser } from "./speech";
+
+/** Recordings longer than this are cut off rather than transcribed */
+const MAX_DICTATION_SECONDS = 5 * 60;
+
+/**
+ * Push-to-talk dictation over a WebSocket: audio streams in while the user
+ * records, words stream back as they're recognised, and the final text is
+ * sent when they stop. Nothing is added to a conversation.
+ */
+export class DictationSession {
+  private samples: Int16Array[] = [];
+  private sampleCount = 0;
+  private transcription: STTStream | null = null;
+  private sensitivity: number | undefined;
+  private readonly ready: Promise<void>;
+  private finished = false;
+
+  constructor(
+    private readonly socket: WebSocket,
+    private readonly user: User
+  ) {
+    this.ready = this.open();
+    // Surfaced when `finish` awaits it
+    this.ready.catch(() => {});
+
+    socket.on("message", (data, isBinary) => {
+      if (isBinary) {
+        this.handleAudio(readPcm(data as Buffer));
+      } else {
+        this.handleControl(data.toString()).catch(error => this.sendError(error));
+      }
+    });
+    socket.on("close", () => {
+      this.finished = true;
+      this.transcription?.close();
+    });
+  }
+
+  private send(message: DictationServerMessage) {
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private sendError(error: unknown) {
+    console.error("[Voice] Dictation error:", error);
+    this.send({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+
+  private async open() {
+    const settings = await db.getUserSettings(this.user.id);
+    this.sensitivity = settings?.vadSensitivity ?? undefined;
+
+    const sttOptions = await resolveSTTOptions(this.user.id);
+    for (const message of await enforceBudgets(this.user, sttOptions.provider)) {
+      this.send({ type: "budget_warning", message });
+    }
+    this.transcription = openTranscriptionStream(
+      this.user.id,
+      { ...sttOptions, sampleRate: PCM_SAMPLE_RATE },
+      result => this.send({ type: "partial_transcript", text: result.text })
+    );
+    // Catch up on audio recorded while settings were loading
+    for (const samples of this.samples) this.transcription?.write(samples);
+  }
+
+  private handleAudio(samples: Int16Array) {
+    if (this.finished || this.sampleCount >= MAX_DICTATION_SECONDS * PCM_SAMPLE_RATE) return;
+
+    this.samples.push(samples);
+    this.sampleCount += samples.length;
+    this.transcription?.write(samples);
+  }
+
+  private async handleControl(raw: string) {
+    let message: DictationClientMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      throw new Error("Invalid message");
+    }
+
+    if (message.type !== "finish") throw new Error("Unknown message type");
+    if (this.finished) return;
+    this.finished = true;
+
+    await this.ready;
+    const text = await this.transcribe();
+    this.send({ type: "final_transcript", text });
+    this.socket.close(1000, "Dictation finished");
+  }
+
+  private async transcribe(): Promise<string> {
+    const recording = new Int16Array(this.sampleCount);
+    let offset = 0;
+    for (const samples of this.samples) {
+      recording.set(samples, offset);
+      offset += samples.length;
+    }
+
+    // Clips without speech aren't worth sending to STT
+    const speech = trimSilence(recording, { sampleRate: PCM_SAMPLE_RATE, sensitivity: this.sensitivity });
+    if (!speech) {
+      this.transcription?.close();
+      return "";
+    }
+
+    if (this.transcription) {
+      const result = await this.transcription.finish();
+      return result.text.trim();
+    }
+
+    const fileKey = `${this.user.id}/audio/${Date.now()}-${Math.random().toString(36).substring(7)}.wav`;
+    const { url: audioUrl } = await storagePut(fileKey, Buffer.from(encodeWav(speech, PCM_SAMPLE_RATE)), "audio/wav");
+    const result = await transcribeForUser(this.user.id, { audioUrl });
+    return result.text.trim();
+  }
+}
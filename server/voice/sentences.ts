@@ -0,0 +1,201 @@
+import { streamTTS } from "../providers/tts";
+import { CodeBlockFilter } from "../providers/speechText";
+import { readToneTags } from "@shared/tone";
+import { trackSpeechUsage } from "./speech";
+import type { TTSOptions } from "./speech";
+
+/** A sentence of a reply; `start` and `end` are offsets into the full reply text */
+export interface Sentence {
+  index: number;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SpokenSentence extends Sentence {
+  /** A complete audio clip in the provider's format */
+  audio: Uint8Array;
+}
+
+/** Shorter pieces are joined with the next sentence so the voice doesn't sound choppy */
+const MIN_SENTENCE_CHARS = 20;
+
+/** Sentences synthesized at once; playback still follows reply order */
+const TTS_CONCURRENCY = 3;
+
+/** End punctuation followed by whitespace, or a line break (paragraphs, list items) */
+const BOUNDARY = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+
+const ABBREVIATIONS = new Set(["mr", "mrs", "ms", "dr", "prof", "st", "vs", "etc", "e.g", "i.e", "approx", "no"]);
+
+/** A full stop that ends an abbreviation or an initial rather than a sentence */
+function isAbbreviation(text: string, periodIndex: number) {
+  if (text[periodIndex] !== ".") return false;
+  const word = /(\S+)$/.exec(text.slice(0, periodIndex))?.[1] ?? "";
+  return ABBREVIATIONS.has(word.toLowerCase()) || /^[A-Z]$/.test(word);
+}
+
+/**
+ * Splits streamed reply text into sentences as soon as each one is complete,
+ * so speech can start before the reply is finished
+ */
+export class SentenceSplitter {
+  private buffer = "";
+  private offset = 0;
+
+  constructor(private nextIndex = 0) {}
+
+  push(delta: string): Sentence[] {
+    this.buffer += delta;
+    return this.take(false);
+  }
+
+  /** The reply is complete: whatever is left is the last sentence */
+  flush(): Sentence[] {
+    return this.take(true);
+  }
+
+  private take(final: boolean): Sentence[] {
+    const sentences: Sentence[] = [];
+    let searchFrom = 0;
+
+    while (true) {
+      BOUNDARY.lastIndex = searchFrom;
+      const match = BOUNDARY.exec(this.buffer);
+      if (!match) break;
+
+      const end = match.index + match[0].length;
+      if (this.buffer.slice(0, end).trim().length < MIN_SENTENCE_CHARS || isAbbreviation(this.buffer, match.index)) {
+        searchFrom = end;
+        continue;
+      }
+      sentences.push(this.emit(end));
+      searchFrom = 0;
+    }
+
+    if (final && this.buffer.trim()) {
+      sentences.push(this.emit(this.buffer.length));
+    }
+    return sentences;
+  }
+
+  private emit(length: number): Sentence {
+    const raw = this.buffer.slice(0, length);
+    const leading = raw.length - raw.trimStart().length;
+    const sentence = {
+      index: this.nextIndex++,
+      text: raw.trim(),
+      start: this.offset + leading,
+      end: this.offset + length,
+    };
+    this.buffer = this.buffer.slice(length);
+    this.offset += length;
+    return sentence;
+  }
+}
+
+/** Sentences handed from the reply stream to the synthesizer as they're found */
+export class SentenceQueue implements AsyncIterable<Sentence> {
+  private items: Sentence[] = [];
+  private closed = false;
+  private wake: (() => void) | null = null;
+
+  push(...sentences: Sentence[]) {
+    this.items.push(...sentences);
+    this.wake?.();
+  }
+
+  close() {
+    this.closed = true;
+    this.wake?.();
+  }
+
+  async *[Symbol.asyncIterator]() {
+    while (true) {
+      const next = this.items.shift();
+      if (next) {
+        yield next;
+      } else if (this.closed) {
+        return;
+      } else {
+        await new Promise<void>(resolve => {
+          this.wake = resolve;
+        });
+        this.wake = null;
+      }
+    }
+  }
+}
+
+async function synthesize(
+  userId: number,
+  sentence: Sentence,
+  options: TTSOptions,
+  signal?: AbortSignal
+): Promise<SpokenSentence> {
+  const chunks: Uint8Array[] = [];
+  try {
+    for await (const chunk of streamTTS({ ...options, text: sentence.text }, signal)) {
+      chunks.push(chunk);
+    }
+  } finally {
+    // Audio cut off by a barge-in or an abort was still synthesized
+    if (chunks.length > 0) {
+      await trackSpeechUsage(userId, options, Buffer.concat(chunks))
+        .catch(error => console.error("[TTS] Failed to record usage:", error));
+    }
+  }
+  return { ...sentence, audio: Buffer.concat(chunks) };
+}
+
+/**
+ * Synthesize sentences as they arrive, several at a time, yielding each
+ * clip in sentence order and recording each one's usage for the user. Tone
+ * tags are taken out of the text and passed on as acting instructions.
+ * Sentences with nothing to say (e.g. a lone "---", or lines of a code
+ * block) are skipped.
+ */
+export async function* synthesizeSentences(
+  userId: number,
+  sentences: AsyncIterable<Sentence>,
+  options: TTSOptions,
+  signal?: AbortSignal
+): AsyncGenerator<SpokenSentence> {
+  const iterator = sentences[Symbol.asyncIterator]();
+  const inFlight: Promise<SpokenSentence>[] = [];
+  let next: Promise<IteratorResult<Sentence>> | null = iterator.next();
+  let tone: string | undefined;
+  // Code blocks span several sentences
+  const code = new CodeBlockFilter();
+
+  // Take new sentences while there's room, but hand over each clip as soon as it's next in line
+  while (next || inFlight.length > 0) {
+    const waitingOn: Promise<
+      { kind: "input"; result: IteratorResult<Sentence> } | { kind: "output"; spoken: SpokenSentence }
+    >[] = [];
+    if (next && inFlight.length < TTS_CONCURRENCY) {
+      waitingOn.push(next.then(result => ({ kind: "input" as const, result })));
+    }
+    if (inFlight.length > 0) {
+      waitingOn.push(inFlight[0].then(spoken => ({ kind: "output" as const, spoken })));
+    }
+
+    const ready = await Promise.race(waitingOn);
+    if (ready.kind === "output") {
+      inFlight.shift();
+      if (ready.spoken.audio.length > 0) yield ready.spoken;
+    } else if (ready.result.done) {
+      next = null;
+    } else {
+      const spoken = readToneTags(code.filter(ready.result.value.text), tone);
+      const sentence = { ...ready.result.value, text: spoken.text };
+      tone = spoken.nextTone;
+      if (/[A-Za-z0-9\u00C0-\uFFFF]/.test(sentence.text)) {
+        const clip = synthesize(userId, sentence, { ...options, description: spoken.tone }, signal);
+        clip.catch(() => {}); // Rethrown when it reaches the front of the line
+        inFlight.push(clip);
+      }
+      next = iterator.next();
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { EventEmitter } from "events";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebSocket } from "ws";
+import type { User } from "../../drizzle/schema";
+import { PCM_SAMPLE_RATE } from "@shared/voice";
+import type { VoiceServerMessage } from "@shared/voice";
+
+// Calls transcribed by the "local" STT stand-in, answered by a canned reply
+vi.mock("../db", () => ({
+  getConversationById: vi.fn(async (id: number) => (id === 10 ? { id: 10, userId: 1, llmProvider: "openai" } : undefined)),
+  getUserSettings: vi.fn(async () => ({ defaultSttProvider: "local", defaultTtsProvider: "openai", silenceThreshold: 300 })),
+  getUserProviderConfigs: vi.fn(async () => []),
+  getUserVoiceProfiles: vi.fn(async () => []),
+  getUserPronunciations: vi.fn(async () => []),
+  getUserBudgets: vi.fn(async () => []),
+  getTtsCacheEntry: vi.fn(async () => undefined),
+  saveTtsCacheEntry: vi.fn(),
+  updateMessage: vi.fn(),
+  trackUsage: vi.fn(),
+}));
+
+vi.mock("../storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}` })),
+}));
+
+vi.mock("../chat", () => ({
+  prepareChatTurn: vi.fn(async () => ({
+    targets: [{ provider: "openai", model: "gpt-4o" }],
+    temperature: 0.7,
+    messages: [],
+    budgetWarnings: [],
+  })),
+  runAssistantTurn: vi.fn(async function* () {
+    yield { type: "delta", content: "Hello to you too, nice to hear from you." };
+    return { content: "Hello to you too, nice to hear from you.", tokenCount: 12, cost: 0, provider: "openai", model: "gpt-4o" };
+  }),
+  saveAssistantReply: vi.fn(async () => 200),
+}));
+
+vi.mock("../providers/tts", async importOriginal => ({
+  ...(await importOriginal<typeof import("../providers/tts")>()),
+  streamTTS: vi.fn(async function* () {
+    yield new Uint8Array(1600);
+  }),
+}));
+
+import * as db from "../db";
+import { prepareChatTurn } from "../chat";
+import { ENV } from "../_core/env";
+import { openTranscriptionStream } from "./speech";
+import { VoiceSession } from "./session";
+
+const user = { id: 1, openId: "user-1", name: null, email: null, role: "user" } as User;
+
+/** 16-bit PCM as sent by the client: a steady tone, or silence */
+function pcm(ms: number, amplitude = 0): Buffer {
+  const samples = Math.round((PCM_SAMPLE_RATE * ms) / 1000);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    buffer.writeInt16LE(Math.round(amplitude * Math.sin((2 * Math.PI * 440 * i) / PCM_SAMPLE_RATE)), i * 2);
+  }
+  return buffer;
+}
+
+/** Records what the session sends instead of writing to a connection */
+class FakeSocket extends EventEmitter {
+  readonly OPEN = 1;
+  readyState = 1;
+  messages: VoiceServerMessage[] = [];
+  clips: Uint8Array[] = [];
+
+  send(data: string | Uint8Array) {
+    if (typeof data === "string") {
+      this.messages.push(JSON.parse(data));
+    } else {
+      this.clips.push(data);
+    }
+  }
+
+  close() {
+    this.readyState = 3;
+    this.emit("close");
+  }
+
+  /** Send from the client's side, in 100 ms frames like the microphone */
+  receive(data: object | Buffer) {
+    if (!Buffer.isBuffer(data)) {
+      this.emit("message", Buffer.from(JSON.stringify(data)), false);
+      return;
+    }
+    const frame = (PCM_SAMPLE_RATE / 10) * 2;
+    for (let offset = 0; offset < data.length; offset += frame) {
+      this.emit("message", data.subarray(offset, offset + frame), true);
+    }
+  }
+
+  async waitFor<T extends VoiceServerMessage["type"]>(type: T) {
+    return vi.waitFor(() => {
+      const message = this.messages.find(m => m.type === type);
+      if (!message) throw new Error(`No ${type} message yet`);
+      return message as Extract<VoiceServerMessage, { type: T }>;
+    }, { timeout: 5000 });
+  }
+}
+
+describe("local STT stream", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("reveals the transcript as audio is written and records it on finish", async () => {
+    const partials: string[] = [];
+    const stream = openTranscriptionStream(
+      user.id,
+      { provider: "local", sampleRate: PCM_SAMPLE_RATE },
+      result => partials.push(result.text)
+    );
+    expect(stream).not.toBeNull();
+
+    // A word per 300 ms, over a second of audio
+    for (let i = 0; i < 10; i++) stream!.write(new Int16Array(PCM_SAMPLE_RATE / 10));
+    const result = await stream!.finish();
+
+    const words = ENV.localSttTranscript.split(" ");
+    expect(partials.slice(0, 3)).toEqual([words[0], words.slice(0, 2).join(" "), words.slice(0, 3).join(" ")]);
+    expect(partials.at(-1)).toBe(ENV.localSttTranscript);
+    expect(result).toMatchObject({ text: ENV.localSttTranscript, duration: 1, provider: "local" });
+    expect(db.trackUsage).toHaveBeenCalledWith(expect.objectContaining({
+      provider: "local",
+      requestType: "voice",
+      audioSeconds: 1,
+    }));
+  });
+});
+
+describe("voice session", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("streams partial transcripts while the user speaks and answers the final one", async () => {
+    const socket = new FakeSocket();
+    new VoiceSession(socket as unknown as WebSocket, user);
+
+    socket.receive({ type: "start", conversationId: 10 });
+    await socket.waitFor("ready");
+
+    socket.receive(pcm(300));
+    socket.receive(pcm(1500, 8000));
+    socket.receive(pcm(800));
+
+    const transcript = await socket.waitFor("transcript");
+    expect(transcript.text).toBe(ENV.localSttTranscript);
+
+    const partials = socket.messages
+      .filter(m => m.type === "partial_transcript")
+      .map(m => (m as Extract<VoiceServerMessage, { type: "partial_transcript" }>).text);
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials[0]).toBe(ENV.localSttTranscript.split(" ")[0]);
+    expect(partials.every(text => ENV.localSttTranscript.startsWith(text))).toBe(true);
+    // Partials arrive before the utterance ends
+    const types = socket.messages.map(m => m.type);
+    expect(types.indexOf("partial_transcript")).toBeLessThan(types.indexOf("speech_end"));
+
+    await socket.waitFor("turn_done");
+    expect(prepareChatTurn).toHaveBeenCalledWith(user, expect.objectContaining({ id: 10 }), expect.objectContaining({
+      message: ENV.localSttTranscript,
+    }));
+    expect(socket.messages).toContainEqual(expect.objectContaining({ type: "reply_done", messageId: 200 }));
+    expect(socket.clips).toHaveLength(1);
+    expect(db.trackUsage).toHaveBeenCalledWith(expect.objectContaining({ provider: "local", requestType: "voice" }));
+    expect(db.trackUsage).toHaveBeenCalledWith(expect.objectContaining({ provider: "openai", requestType: "tts" }));
+
+    socket.close();
+  });
+});
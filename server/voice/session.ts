@@ -0,0 +1,402 @@
+import type { WebSocket } from "ws";
+import type { User } from "../../drizzle/schema";
+import { PCM_SAMPLE_RATE } from "@shared/voice";
+import type { VoiceClientMessage, VoiceServerMessage } from "@shared/voice";
+import { Endpointer } from "@shared/vad";
+import { encodeWav } from "@shared/wav";
+import { enforceBudgets } from "../budgets";
+import * as db from "../db";
+import { prepareChatTurn, runAssistantTurn, saveAssistantReply } from "../chat";
+import { toCostMicros } from "../providers/catalog";
+import { getTTSMimeType } from "../providers/tts";
+import type { STTResponse, STTStream } from "../providers/stt";
+import { storagePut } from "../storage";
+import {
+  joinSpeech,
+  openTranscriptionStream,
+  readPcm,
+  resolveSTTOptions,
+  resolveTTSOptions,
+  storeSpeech,
+  transcribeForUser,
+} from "./speech";
+import type { STTOptions, TTSOptions } from "./speech";
+import { SentenceQueue, SentenceSplitter, synthesizeSentences } from "./sentences";
+import type { Sentence } from "./sentences";
+
+/** Speaking rate assumed when the client couldn't report the clip's length */
+const DEFAULT_CHARS_PER_SECOND = 15;
+
+/**
+ * State of the reply to one utterance, kept until the next utterance so a
+ * late barge-in can still trim it
+ */
+interface Turn {
+  id: number;
+  abortController: AbortController;
+  messageId: number | null;
+  content: string;
+  /** Sentences of `content` as they were sent to TTS, by index */
+  sentences: Sentence[];
+  /** Set by a barge-in: where in the reply audio the user cut in */
+  interruption: { sentenceIndex?: number; playedMs: number; durationMs?: number } | null;
+}
+
+/**
+ * The part of `content` heard in `playedMs` of audio, cut at a word boundary.
+ * Assumes speech is spread evenly over the clip.
+ */
+export function spokenPrefix(content: string, playedMs: number, durationMs?: number): string {
+  const charsPerMs = durationMs ? content.length / durationMs : DEFAULT_CHARS_PER_SECOND / 1000;
+  const cut = Math.round(playedMs * charsPerMs);
+  if (cut >= content.length) return content;
+
+  const wordEnd = content.lastIndexOf(" ", cut);
+  return wordEnd > 0 ? `${content.slice(0, wordEnd).trimEnd()}…` : "";
+}
+
+/**
+ * The part of an interrupted reply the user heard: every sentence before the
+ * one that was playing, and as much of that one as had played
+ */
+function spokenContent(turn: Turn): string {
+  const { sentenceIndex, playedMs, durationMs } = turn.interruption!;
+  const sentence = sentenceIndex !== undefined ? turn.sentences[sentenceIndex] : undefined;
+  if (!sentence) return spokenPrefix(turn.content, playedMs, durationMs);
+
+  const before = turn.content.slice(0, sentence.start).trimEnd();
+  const heard = spokenPrefix(turn.content.slice(sentence.start, sentence.end).trim(), playedMs, durationMs);
+  return [before, heard].filter(Boolean).join(" ");
+}
+
+/**
+ * One voice call over a WebSocket. Voice activity detection on the incoming
+ * audio splits it into utterances, and each runs through STT → LLM → TTS,
+ * with reply text and audio streamed back as they're produced.
+ * The user can talk over a reply to cut it short (barge-in).
+ */
+export class VoiceSession {
+  private conversationId: number | null = null;
+  private endpointer: Endpointer | null = null;
+  private sttOptions: STTOptions | null = null;
+  /** Live transcription of the utterance being spoken, if the STT provider streams */
+  private transcription: STTStream | null = null;
+  /** Utterances are answered one at a time, in order */
+  private queue: Promise<void> = Promise.resolve();
+  private turnCount = 0;
+  private currentTurn: Turn | null = null;
+  private closed = false;
+
+  constructor(
+    private readonly socket: WebSocket,
+    private readonly user: User
+  ) {
+    socket.on("message", (data, isBinary) => {
+      if (isBinary) {
+        try {
+          this.handleAudio(data as Buffer);
+        } catch (error) {
+          this.sendError(error);
+        }
+      } else {
+        this.handleControl(data.toString()).catch(error => this.sendError(error));
+      }
+    });
+    socket.on("close", () => {
+      this.closed = true;
+      this.transcription?.close();
+      this.currentTurn?.abortController.abort();
+    });
+  }
+
+  private send(message: VoiceServerMessage) {
+    if (this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private sendError(error: unknown) {
+    console.error("[Voice] Session error:", error);
+    this.send({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+
+  private sendBudgetWarnings(warnings: string[]) {
+    for (const message of warnings) this.send({ type: "budget_warning", message });
+  }
+
+  private async handleControl(raw: string) {
+    let message: VoiceClientMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      throw new Error("Invalid message");
+    }
+
+    switch (message.type) {
+      case "start": {
+        const conversation = await db.getConversationById(message.conversationId);
+        if (!conversation || conversation.userId !== this.user.id) {
+          throw new Error("Conversation not found");
+        }
+        const settings = await db.getUserSettings(this.user.id);
+        this.sttOptions = await resolveSTTOptions(this.user.id);
+        this.conversationId = conversation.id;
+        this.endpointer = new Endpointer({
+          sampleRate: PCM_SAMPLE_RATE,
+          sensitivity: settings?.vadSensitivity ?? undefined,
+          silenceMs: settings?.silenceThreshold ?? undefined,
+        });
+        this.send({ type: "ready" });
+        break;
+      }
+
+      case "interrupt":
+        await this.interrupt({
+          sentenceIndex: message.sentenceIndex,
+          playedMs: message.playedMs,
+          durationMs: message.durationMs,
+        });
+        break;
+
+      case "stop":
+        this.socket.close(1000, "Call ended");
+        break;
+
+      default:
+        throw new Error("Unknown message type");
+    }
+  }
+
+  private handleAudio(chunk: Buffer) {
+    if (!this.endpointer) return;
+
+    for (const event of this.endpointer.push(readPcm(chunk))) {
+      switch (event.type) {
+        case "speech_start":
+          this.send({ type: "speech_start" });
+          this.transcription = openTranscriptionStream(
+            this.user.id,
+            { ...this.sttOptions!, sampleRate: PCM_SAMPLE_RATE },
+            result => this.send({ type: "partial_transcript", text: result.text })
+          );
+          this.transcription?.write(event.samples);
+          break;
+        case "speech":
+          this.transcription?.write(event.samples);
+          break;
+        case "discarded":
+          this.transcription?.close();
+          this.transcription = null;
+          this.send({ type: "speech_discarded" });
+          break;
+        case "utterance": {
+          // The live transcript is finished now, while earlier turns may still be running
+          const transcription = this.transcription?.finish() ?? null;
+          transcription?.catch(() => {}); // Handled when the turn awaits it
+          this.transcription = null;
+          this.startTurn(event.samples, transcription);
+          break;
+        }
+      }
+    }
+  }
+
+  private startTurn(samples: Int16Array, transcription: Promise<STTResponse> | null) {
+    const turn: Turn = {
+      id: ++this.turnCount,
+      abortController: new AbortController(),
+      messageId: null,
+      content: "",
+      sentences: [],
+      interruption: null,
+    };
+    this.send({ type: "speech_end", turnId: turn.id });
+
+    this.queue = this.queue
+      .then(() => {
+        this.currentTurn = turn;
+        return this.runTurn(turn, samples, transcription);
+      })
+      .catch(error => this.sendError(error))
+      .finally(() => this.send({ type: "turn_done", turnId: turn.id }));
+  }
+
+  /**
+   * Stop the current reply and keep only the part the user heard. If the
+   * reply hasn't been saved yet, runTurn saves just that part when it does.
+   */
+  private async interrupt(interruption: NonNullable<Turn["interruption"]>) {
+    const turn = this.currentTurn;
+    if (!turn || turn.interruption) return;
+
+    turn.interruption = interruption;
+    turn.abortController.abort();
+
+    if (turn.messageId !== null) {
+      await this.trimReply(turn);
+    }
+  }
+
+  private async trimReply(turn: Turn) {
+    const spoken = spokenContent(turn);
+    if (spoken) {
+      // Any stored audio is of the whole reply, so it no longer matches
+      await db.updateMessage(turn.messageId!, this.user.id, { content: spoken, audioUrl: null });
+    } else {
+      await db.deleteMessage(turn.messageId!, this.user.id);
+    }
+  }
+
+  /**
+   * Synthesize reply sentences as they're written and send each clip once
+   * it's next to play. Returns the clips sent.
+   */
+  private async speak(turn: Turn, sentences: SentenceQueue, options: TTSOptions) {
+    const signal = turn.abortController.signal;
+    const clips: Uint8Array[] = [];
+    try {
+      for await (const sentence of synthesizeSentences(this.user.id, sentences, options, signal)) {
+        if (signal.aborted || this.socket.readyState !== this.socket.OPEN) break;
+        this.send({
+          type: "sentence_audio",
+          turnId: turn.id,
+          index: sentence.index,
+          text: sentence.text,
+          mimeType: getTTSMimeType(options.provider || "elevenlabs"),
+        });
+        this.socket.send(sentence.audio, { binary: true });
+        clips.push(sentence.audio);
+      }
+    } catch (error) {
+      if (!signal.aborted) throw error;
+    }
+    return clips;
+  }
+
+  private async runTurn(turn: Turn, samples: Int16Array, transcription: Promise<STTResponse> | null) {
+    const conversationId = this.conversationId!;
+    const signal = turn.abortController.signal;
+    if (this.closed) return;
+
+    // Speech to text. A spent budget ends the turn.
+    transcription?.catch(() => {}); // Awaited below unless the budget check throws
+    this.sendBudgetWarnings(await enforceBudgets(this.user, this.sttOptions!.provider));
+    const fileKey = `${this.user.id}/audio/${Date.now()}-${Math.random().toString(36).substring(7)}.wav`;
+    const wav = Buffer.from(encodeWav(samples, PCM_SAMPLE_RATE));
+    const { url: audioUrl } = await storagePut(fileKey, wav, "audio/wav");
+    const result = transcription ? await transcription : await transcribeForUser(this.user.id, { audioUrl });
+
+    const text = result.text.trim();
+    this.send({ type: "transcript", turnId: turn.id, text });
+    if (!text || signal.aborted) return;
+
+    // Language model, with text to speech running a sentence behind it
+    const conversation = await db.getConversationById(conversationId);
+    if (!conversation) throw new Error("Conversation not found");
+    const chatTurn = await prepareChatTurn(this.user, conversation, { message: text, audioUrl });
+    this.sendBudgetWarnings(chatTurn.budgetWarnings);
+    let { provider, model, providerConfigId } = chatTurn.targets[0];
+    let reply = "";
+    let tokenCount = 0;
+    let cost = 0;
+
+    // Without a TTS key the reply is still written, just not spoken
+    const ttsOptions = await resolveTTSOptions(this.user.id).then(async options => {
+      this.sendBudgetWarnings(await enforceBudgets(this.user, options.provider || "elevenlabs"));
+      return options;
+    }).catch(error => {
+      this.sendError(error);
+      return null;
+    });
+    const sentences = new SentenceQueue();
+    const speaking = ttsOptions ? this.speak(turn, sentences, ttsOptions) : Promise.resolve([]);
+    speaking.catch(() => {}); // Awaited once the reply is saved
+    let splitter = new SentenceSplitter();
+    const enqueue = (found: Sentence[]) => {
+      turn.sentences.push(...found);
+      sentences.push(...found);
+    };
+
+    try {
+      const run = runAssistantTurn({ user: this.user, conversationId, turn: chatTurn, signal });
+      let step = await run.next();
+      while (!step.done) {
+        const event = step.value;
+        if (event.type === "delta") {
+          reply += event.content;
+          this.send({ type: "reply_delta", turnId: turn.id, content: event.content });
+          enqueue(splitter.push(event.content));
+        } else if (event.type === "tool_call") {
+          // Text before a tool call is saved with the call itself, so what was
+          // already spoken of it isn't part of this reply
+          enqueue(splitter.flush());
+          turn.sentences = turn.sentences.map(sentence => ({ ...sentence, start: 0, end: 0 }));
+          splitter = new SentenceSplitter(turn.sentences.length);
+          reply = "";
+        }
+        step = await run.next();
+      }
+      ({ tokenCount, cost, provider, model, providerConfigId } = step.value);
+    } catch (error: any) {
+      if (!signal.aborted) {
+        reply = reply
+          ? `${reply}\n\nError: ${error.message}`
+          : `Error: ${error.message}. Please check your provider configuration.`;
+      }
+    }
+    enqueue(splitter.flush());
+    sentences.close();
+
+    reply = reply || (signal.aborted ? "Response cancelled." : "I apologize, but I couldn't generate a response.");
+    turn.content = reply;
+
+    // Interrupted while the reply was still being written: keep only what was heard
+    const content = turn.interruption ? spokenContent(turn) : reply;
+    if (!content) {
+      await db.trackUsage({
+        userId: this.user.id,
+        date: new Date(),
+        provider,
+        requestType: "text",
+        tokenCount,
+        costMicros: toCostMicros(cost),
+        providerConfigId,
+      });
+      return;
+    }
+
+    turn.messageId = await saveAssistantReply({
+      userId: this.user.id,
+      conversationId,
+      content,
+      provider,
+      model,
+      tokenCount,
+      cost,
+      providerConfigId,
+    });
+    if (turn.interruption) {
+      // Interrupted while the reply was being saved
+      if (content === reply) await this.trimReply(turn);
+      return;
+    }
+    this.send({ type: "reply_done", turnId: turn.id, messageId: turn.messageId, content: reply });
+
+    let clips: Uint8Array[];
+    try {
+      clips = await speaking;
+    } finally {
+      this.send({ type: "audio_end", turnId: turn.id });
+    }
+
+    // Keep the whole reply's audio so it can be replayed without synthesizing it again
+    if (ttsOptions && clips.length > 0 && !signal.aborted) {
+      try {
+        const audioUrl = await storeSpeech(this.user.id, reply, ttsOptions, joinSpeech(clips, ttsOptions));
+        await db.updateMessage(turn.messageId, this.user.id, { audioUrl });
+      } catch (error) {
+        console.error("[Voice] Failed to store reply audio:", error);
+      }
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer } from "ws";
+import type { WebSocket } from "ws";
+import type { Request } from "express";
+import { VOICE_SOCKET_PATH } from "@shared/voice";
+import { sdk } from "../_core/sdk";
+import { DictationSession } from "./dictation";
+import { VoiceSession } from "./session";
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/** Largest frame a client may send; audio arrives in chunks of a few KB */
+const MAX_PAYLOAD_BYTES = 1024 * 1024;
+
+function reject(socket: Duplex, status: number, reason: string) {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Browsers send the session cookie with WebSockets opened by any site, so
+ * only upgrades from pages served by this app are accepted
+ */
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+
+  let originHost: string;
+  try {
+    originHost = new URL(origin).host;
+  } catch {
+    return false;
+  }
+  const forwardedHost = req.headers["x-forwarded-host"];
+  const hosts = [req.headers.host, ...(Array.isArray(forwardedHost) ? forwardedHost : forwardedHost?.split(",") ?? [])];
+  return hosts.some(host => host?.trim().toLowerCase() === originHost.toLowerCase());
+}
+
+/**
+ * Accept voice call (and `?mode=dictation`) WebSockets on VOICE_SOCKET_PATH. Other upgrade requests
+ * (e.g. Vite's HMR socket in development) are left alone.
+ */
+export function registerVoiceSocket(server: Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname, searchParams } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== VOICE_SOCKET_PATH) return;
+
+    if (!isSameOrigin(req)) {
+      reject(socket, 403, "Forbidden");
+      return;
+    }
+
+    let user;
+    try {
+      // Same session cookie as the tRPC API
+      user = await sdk.authenticateRequest(req as Request);
+    } catch {
+      reject(socket, 401, "Unauthorized");
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      alive.set(ws, true);
+      ws.on("pong", () => alive.set(ws, true));
+      if (searchParams.get("mode") === "dictation") {
+        new DictationSession(ws, user);
+      } else {
+        new VoiceSession(ws, user);
+      }
+    });
+  });
+
+  // Drop connections that stop answering pings, e.g. after a network change
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(ws => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  server.on("close", () => clearInterval(heartbeat));
+}
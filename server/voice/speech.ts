@@ -0,0 +1,324 @@
+import { createHash } from "crypto";
+import * as db from "../db";
+import { transcribeAudio } from "../_core/voiceTranscription";
+import { toCostMicros } from "../providers/catalog";
+import { selectProviderConfig } from "../providers/credentials";
+import { callSTT, estimateSTTCost, openSTTStream, streamingSTTNeedsApiKey, supportsStreamingSTT } from "../providers/stt";
+import type { STTPartialResult, STTStream } from "../providers/stt";
+import { callTTS, estimateTTSCost, getTTSMimeType, ttsNeedsApiKey } from "../providers/tts";
+import type { TTSRequest, VoiceTuning } from "../providers/tts";
+import type { LexiconEntry } from "../providers/speechText";
+import type { VoiceProfile } from "../../drizzle/schema";
+import { storagePut } from "../storage";
+import { trimSilence } from "@shared/vad";
+import { decodeWav, encodeWav } from "@shared/wav";
+import { readToneTags } from "@shared/tone";
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  duration?: number;
+}
+
+export interface STTOptions {
+  provider: string;
+  apiKey?: string;
+  /** Saved key the audio is billed to */
+  providerConfigId?: number;
+}
+
+export type TTSOptions = Omit<TTSRequest, "text"> & {
+  /** Saved key the speech is billed to */
+  providerConfigId?: number;
+};
+
+/** The user's STT provider (or the one given) and its default API key, if configured */
+export async function resolveSTTOptions(userId: number, provider?: string): Promise<STTOptions> {
+  const settings = await db.getUserSettings(userId);
+  const resolved = provider || settings?.defaultSttProvider || "whisper";
+
+  const providerConfigs = await db.getUserProviderConfigs(userId);
+  const providerConfig = selectProviderConfig(providerConfigs, resolved);
+  return { provider: resolved, apiKey: providerConfig?.apiKey || undefined, providerConfigId: providerConfig?.id };
+}
+
+async function trackTranscriptionUsage(userId: number, provider: string, duration?: number, providerConfigId?: number) {
+  const audioSeconds = Math.ceil(duration || 0);
+  await db.trackUsage({
+    userId,
+    date: new Date(),
+    provider,
+    requestType: "voice",
+    audioSeconds,
+    costMicros: toCostMicros(estimateSTTCost(provider, audioSeconds)),
+    providerConfigId,
+  });
+}
+
+/**
+ * Transcribe audio with the user's STT provider (or the one given) and
+ * record the audio seconds used
+ */
+export async function transcribeForUser(
+  userId: number,
+  params: { audioUrl: string; language?: string; provider?: string }
+): Promise<TranscriptionResult> {
+  const { provider, apiKey, providerConfigId } = await resolveSTTOptions(userId, params.provider);
+
+  let result: TranscriptionResult & { provider?: string };
+  if (provider === "whisper" && !apiKey) {
+    // Use built-in Whisper
+    const whisperResult = await transcribeAudio({
+      audioUrl: params.audioUrl,
+      language: params.language,
+    });
+
+    if ("error" in whisperResult) {
+      throw new Error(whisperResult.error);
+    }
+    result = whisperResult;
+  } else {
+    // Use multi-provider STT
+    result = await callSTT({
+      audioUrl: params.audioUrl,
+      language: params.language,
+      provider,
+      apiKey: apiKey || undefined,
+    });
+  }
+
+  await trackTranscriptionUsage(userId, result.provider || provider, result.duration, providerConfigId);
+
+  return {
+    text: result.text,
+    language: result.language,
+    duration: result.duration,
+  };
+}
+
+/**
+ * Start transcribing live audio for the user, or return null if their STT
+ * provider only handles finished clips (use transcribeForUser then). The
+ * audio seconds are recorded when the stream finishes.
+ */
+export function openTranscriptionStream(
+  userId: number,
+  options: STTOptions & { sampleRate: number; language?: string },
+  onResult: (result: STTPartialResult) => void
+): STTStream | null {
+  // Without a key, transcribeForUser reports the problem when the utterance ends
+  if (!supportsStreamingSTT(options.provider)) return null;
+  if (!options.apiKey && streamingSTTNeedsApiKey(options.provider)) return null;
+
+  const stream = openSTTStream(options, onResult);
+  return {
+    write: samples => stream.write(samples),
+    close: () => stream.close(),
+    finish: async () => {
+      const result = await stream.finish();
+      await trackTranscriptionUsage(userId, result.provider, result.duration, options.providerConfigId);
+      return result;
+    },
+  };
+}
+
+/** 16-bit little-endian PCM from a WebSocket frame; a trailing odd byte can't be a sample */
+export function readPcm(chunk: Buffer): Int16Array {
+  const samples = new Int16Array(Math.floor(chunk.length / 2));
+  for (let i = 0; i < samples.length; i++) samples[i] = chunk.readInt16LE(i * 2);
+  return samples;
+}
+
+async function getLexicon(userId: number): Promise<LexiconEntry[]> {
+  const entries = await db.getUserPronunciations(userId);
+  return entries.map(({ term, alias, phoneme }) => ({ term, alias, phoneme }));
+}
+
+/** Overall speaking speed, as a fraction; the same range each setting offers */
+const MIN_SPEED = 0.5;
+const MAX_SPEED = 2;
+
+/**
+ * A voice profile's tuning (stored as percentages) with the user's speed
+ * setting on top. The combined speed is kept within MIN_SPEED–MAX_SPEED.
+ */
+function voiceTuning(profile: VoiceProfile | undefined, ttsSpeed: number | null | undefined): VoiceTuning {
+  const fraction = (percent: number | null | undefined) => (percent == null ? undefined : percent / 100);
+  const combined = Math.round((ttsSpeed ?? 100) * (profile?.speed ?? 100) / 100) / 100;
+  const speed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, combined));
+  return {
+    speed: speed === 1 ? undefined : speed,
+    stability: fraction(profile?.stability),
+    similarity: fraction(profile?.similarity),
+    style: fraction(profile?.style),
+    pitch: profile?.pitch ?? undefined,
+  };
+}
+
+/**
+ * TTS provider, voice, model, key, tuning and pronunciations from the
+ * user's settings and voice profiles, with optional overrides. The default voice profile for
+ * the provider is used unless a voice is given. When the default provider
+ * has no API key configured, the built-in OpenAI voice is used instead; a
+ * provider asked for by name must have its key.
+ */
+export async function resolveTTSOptions(
+  userId: number,
+  overrides: { provider?: string; voice?: string } = {}
+): Promise<TTSOptions> {
+  const settings = await db.getUserSettings(userId);
+  const provider = overrides.provider || settings?.defaultTtsProvider || "elevenlabs";
+
+  // Get provider config
+  const providerConfigs = await db.getUserProviderConfigs(userId);
+  const providerConfig = selectProviderConfig(providerConfigs, provider);
+
+  if (!providerConfig?.apiKey && ttsNeedsApiKey(provider)) {
+    if (overrides.provider) {
+      throw new Error(`API key required for ${provider}. Please configure in settings.`);
+    }
+    // The voice, model and profile belong to the other provider
+    return { provider: "openai", ...voiceTuning(undefined, settings?.ttsSpeed), lexicon: await getLexicon(userId) };
+  }
+
+  const profiles = (await db.getUserVoiceProfiles(userId)).filter(p => p.provider === provider);
+  const profile = overrides.voice
+    ? profiles.find(p => p.voiceId === overrides.voice)
+    : profiles.find(p => p.isDefault) ?? profiles.find(p => p.voiceId === settings?.defaultTtsVoice);
+  const voice = overrides.voice || profile?.voiceId || settings?.defaultTtsVoice;
+
+  return {
+    provider,
+    voice: voice || undefined,
+    apiKey: providerConfig?.apiKey || undefined,
+    baseUrl: providerConfig?.baseUrl || undefined,
+    providerConfigId: providerConfig?.id,
+    model: settings?.defaultTtsModel || undefined,
+    ...voiceTuning(profile, settings?.ttsSpeed),
+    lexicon: await getLexicon(userId),
+  };
+}
+
+/**
+ * Trim a recorded WAV clip to its speech using the user's VAD settings.
+ * Returns null when the clip has no speech in it, so it isn't sent to STT.
+ */
+export async function trimRecording(userId: number, wav: Buffer): Promise<Buffer | null> {
+  const { samples, sampleRate } = decodeWav(wav);
+  const settings = await db.getUserSettings(userId);
+  const speech = trimSilence(samples, {
+    sampleRate,
+    sensitivity: settings?.vadSensitivity ?? undefined,
+  });
+  return speech ? Buffer.from(encodeWav(speech, sampleRate)) : null;
+}
+
+// ============ Stored Speech ============
+
+/** Cache key for synthesized speech: the same text in the same voice, tuning and pronunciations sounds the same */
+function speechHash(text: string, options: Omit<TTSRequest, "text">) {
+  return createHash("sha256")
+    .update(JSON.stringify([
+      text,
+      options.provider,
+      options.voice,
+      options.model,
+      options.speed ?? null,
+      options.stability ?? null,
+      options.similarity ?? null,
+      options.style ?? null,
+      options.pitch ?? null,
+      options.lexicon ?? [],
+    ]))
+    .digest("hex");
+}
+
+/** URL of audio already stored for this text and voice, if any */
+export async function getCachedSpeech(
+  userId: number,
+  text: string,
+  options: Omit<TTSRequest, "text">
+): Promise<string | null> {
+  const entry = await db.getTtsCacheEntry(userId, speechHash(text, options));
+  return entry?.audioUrl ?? null;
+}
+
+/**
+ * One file from a reply's sentence clips. MP3 clips play back to back when
+ * joined; WAV clips each have a header, so their samples are joined instead.
+ */
+export function joinSpeech(clips: Uint8Array[], options: Omit<TTSRequest, "text">): Uint8Array {
+  if (getTTSMimeType(options.provider || "elevenlabs") !== "audio/wav") {
+    return Buffer.concat(clips);
+  }
+
+  const decoded = clips.map(clip => decodeWav(clip));
+  const samples = new Int16Array(decoded.reduce((total, clip) => total + clip.samples.length, 0));
+  let offset = 0;
+  for (const clip of decoded) {
+    samples.set(clip.samples, offset);
+    offset += clip.samples.length;
+  }
+  return encodeWav(samples, decoded[0]?.sampleRate ?? 22050);
+}
+
+/**
+ * Record synthesized audio as TTS usage. Called for every clip the provider
+ * returns, including ones cut short, since those are paid for too.
+ */
+export async function trackSpeechUsage(userId: number, options: TTSOptions, audio: Uint8Array) {
+  const provider = options.provider || "elevenlabs";
+  const seconds = speechSeconds(audio, getTTSMimeType(provider));
+  await db.trackUsage({
+    userId,
+    date: new Date(),
+    provider,
+    requestType: "tts",
+    audioSeconds: Math.ceil(seconds),
+    costMicros: toCostMicros(estimateTTSCost(provider, seconds)),
+    providerConfigId: options.providerConfigId,
+  });
+}
+
+/** Put synthesized audio in storage and remember it under its content hash */
+export async function storeSpeech(
+  userId: number,
+  text: string,
+  options: TTSOptions,
+  audio: Uint8Array
+): Promise<string> {
+  const contentHash = speechHash(text, options);
+  const provider = options.provider || "elevenlabs";
+  const mimeType = getTTSMimeType(provider);
+  const extension = mimeType === "audio/wav" ? "wav" : "mp3";
+  const { url } = await storagePut(`${userId}/tts/${contentHash}.${extension}`, Buffer.from(audio), mimeType);
+  await db.saveTtsCacheEntry({ userId, contentHash, audioUrl: url });
+  return url;
+}
+
+/** Length of synthesized audio; MP3 is estimated at 128 kbps */
+function speechSeconds(audio: Uint8Array, mimeType: string): number {
+  if (mimeType === "audio/wav") {
+    const { samples, sampleRate } = decodeWav(audio);
+    return samples.length / sampleRate;
+  }
+  return audio.length / (128_000 / 8);
+}
+
+/**
+ * Speech for `text` as a stored file, synthesized only if the same text and
+ * voice haven't been before
+ */
+export async function synthesizeToStorage(
+  userId: number,
+  text: string,
+  options: TTSOptions
+): Promise<{ audioUrl: string; cached: boolean }> {
+  const cached = await getCachedSpeech(userId, text, options);
+  if (cached) return { audioUrl: cached, cached: true };
+
+  const spoken = readToneTags(text);
+  const result = await callTTS({ ...options, text: spoken.text, description: spoken.tone });
+  await trackSpeechUsage(userId, options, result.audio);
+  return { audioUrl: await storeSpeech(userId, text, options, result.audio), cached: false };
+}
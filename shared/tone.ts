@@ -0,0 +1,41 @@
+/**
+ * Tone tags: inline hints like "[tone: warm, reassuring]" that the model adds
+ * to a reply when the user's voice can act them out. They stay in the saved
+ * reply so it can be spoken again later, but are never shown or read aloud.
+ */
+
+const TONE_TAG = /\[tone:\s*([^\]\n]{1,200})\]/gi;
+
+/** A tag the model hasn't finished writing yet, at the end of streamed text */
+const PARTIAL_TONE_TAG = /\[(?:t(?:o(?:n(?:e(?::[^\]\n]*)?)?)?)?)?$/i;
+
+/** Text for display, without tone tags */
+export function stripToneTags(text: string, options: { streaming?: boolean } = {}): string {
+  let stripped = text.replace(TONE_TAG, "");
+  if (options.streaming) stripped = stripped.replace(PARTIAL_TONE_TAG, "");
+  return stripped.replace(/[ \t]{2,}/g, " ").replace(/^[ \t]+/gm, "");
+}
+
+/**
+ * Text to speak and the tone to speak it in. A tag sets the tone for the
+ * rest of the reply, so `currentTone` is the one in effect before `text`
+ * and `nextTone` the one after it.
+ */
+export function readToneTags(
+  text: string,
+  currentTone?: string
+): { text: string; tone?: string; nextTone?: string } {
+  const tags = Array.from(text.matchAll(TONE_TAG), match => match[1].trim());
+  return {
+    text: stripToneTags(text).trim(),
+    // A tag anywhere in the sentence is meant for that sentence
+    tone: tags[0] ?? currentTone,
+    nextTone: tags[tags.length - 1] ?? currentTone,
+  };
+}
+
+/** Added to the system prompt when replies are spoken by a voice that can act */
+export const TONE_INSTRUCTIONS =
+  "Your replies are read aloud by an expressive voice. When the emotion or delivery of a passage matters, " +
+  "put a tone tag before it, e.g. [tone: warm, reassuring] or [tone: excited, speaking quickly]. " +
+  "A tag applies until the next one. Use them sparingly and never mention them.";
@@ -0,0 +1,318 @@
+/**
+ * Voice activity detection and endpointing on 16-bit mono PCM.
+ *
+ * Each 20 ms frame is judged on two things: its energy against a running
+ * noise floor, and the shape of its spectrum. Speech is peaky and sits mostly
+ * in the voice band; fans, hiss and keyboard clicks are flat or broadband, so
+ * being loud isn't enough on its own.
+ */
+
+export interface VadOptions {
+  sampleRate: number;
+  /** 0–100; higher picks up quieter speech (userSettings.vadSensitivity) */
+  sensitivity?: number;
+  /** Silence that ends an utterance, in ms (userSettings.silenceThreshold) */
+  silenceMs?: number;
+}
+
+export type EndpointEvent =
+  /** Speech started; `samples` is the audio from just before it up to now */
+  | { type: "speech_start"; samples: Int16Array }
+  /** More audio while the user is speaking, for live transcription */
+  | { type: "speech"; samples: Int16Array }
+  /** A finished utterance with leading and trailing silence trimmed */
+  | { type: "utterance"; samples: Int16Array }
+  /** What looked like the start of speech was too short to be any */
+  | { type: "discarded" };
+
+const FRAME_MS = 20;
+const DEFAULT_SENSITIVITY = 70;
+const DEFAULT_SILENCE_MS = 1500;
+
+/** Speech has to cover this much of the onset window to count as started */
+const ONSET_WINDOW_MS = 200;
+const ONSET_MS = 120;
+/** Silence kept either side of the speech */
+const PAD_MS = 200;
+/** Clips with less speech than this are dropped rather than transcribed */
+const MIN_SPEECH_MS = 300;
+const MAX_UTTERANCE_MS = 60 * 1000;
+
+/** Frames must be this far above the noise floor; sensitivity moves it between the two */
+const MARGIN_DB_AT_MIN_SENSITIVITY = 18;
+const MARGIN_DB_AT_MAX_SENSITIVITY = 6;
+/** Quieter than this is silence however quiet the room is */
+const ABSOLUTE_FLOOR_DB = -60;
+const INITIAL_NOISE_FLOOR_DB = -70;
+
+/** Spectral flatness runs from 0 (a pure tone) to 1 (white noise) */
+const MAX_FLATNESS = 0.45;
+const VOICE_BAND_HZ: [number, number] = [100, 4000];
+const MIN_VOICE_BAND_RATIO = 0.6;
+
+function frameLength(sampleRate: number) {
+  return Math.round((sampleRate * FRAME_MS) / 1000);
+}
+
+function msToFrames(ms: number) {
+  return Math.max(1, Math.round(ms / FRAME_MS));
+}
+
+function concat(frames: Int16Array[]): Int16Array {
+  const out = new Int16Array(frames.reduce((total, frame) => total + frame.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    out.set(frame, offset);
+    offset += frame.length;
+  }
+  return out;
+}
+
+/** Power spectrum of one frame through a Hann window and a radix-2 FFT */
+class Spectrum {
+  readonly size: number;
+  private readonly window: Float64Array;
+  private readonly re: Float64Array;
+  private readonly im: Float64Array;
+
+  constructor(frameLength: number) {
+    this.size = 2 ** Math.ceil(Math.log2(frameLength));
+    this.window = new Float64Array(frameLength);
+    for (let i = 0; i < frameLength; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameLength - 1));
+    }
+    this.re = new Float64Array(this.size);
+    this.im = new Float64Array(this.size);
+  }
+
+  power(frame: Int16Array): Float64Array {
+    const { re, im, size } = this;
+    re.fill(0);
+    im.fill(0);
+    for (let i = 0; i < frame.length; i++) re[i] = (frame[i] / 32768) * this.window[i];
+
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < size; i++) {
+      let bit = size >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+
+    for (let length = 2; length <= size; length <<= 1) {
+      const angle = (-2 * Math.PI) / length;
+      for (let start = 0; start < size; start += length) {
+        for (let k = 0; k < length / 2; k++) {
+          const wr = Math.cos(angle * k);
+          const wi = Math.sin(angle * k);
+          const a = start + k;
+          const b = a + length / 2;
+          const tr = re[b] * wr - im[b] * wi;
+          const ti = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+
+    const power = new Float64Array(size / 2 + 1);
+    for (let i = 0; i < power.length; i++) power[i] = re[i] * re[i] + im[i] * im[i];
+    return power;
+  }
+}
+
+/**
+ * Decides frame by frame whether someone is speaking. The noise floor falls
+ * quickly and rises slowly, and never on speech, so it settles on the room's
+ * steady background.
+ */
+export class FrameClassifier {
+  readonly frameLength: number;
+  private readonly spectrum: Spectrum;
+  private readonly marginDb: number;
+  private readonly binHz: number;
+  private noiseFloorDb = INITIAL_NOISE_FLOOR_DB;
+
+  constructor(options: VadOptions) {
+    this.frameLength = frameLength(options.sampleRate);
+    // A zero-length frame would never advance through the audio
+    if (!(this.frameLength >= 1)) {
+      throw new Error(`Sample rate too low for voice detection: ${options.sampleRate} Hz`);
+    }
+    this.spectrum = new Spectrum(this.frameLength);
+    this.binHz = options.sampleRate / this.spectrum.size;
+
+    const sensitivity = Math.min(100, Math.max(0, options.sensitivity ?? DEFAULT_SENSITIVITY)) / 100;
+    this.marginDb =
+      MARGIN_DB_AT_MIN_SENSITIVITY - sensitivity * (MARGIN_DB_AT_MIN_SENSITIVITY - MARGIN_DB_AT_MAX_SENSITIVITY);
+  }
+
+  isSpeech(frame: Int16Array): boolean {
+    let sumSquares = 0;
+    for (let i = 0; i < frame.length; i++) sumSquares += (frame[i] / 32768) ** 2;
+    const energyDb = 10 * Math.log10(sumSquares / frame.length + 1e-10);
+
+    const loud = energyDb > Math.max(this.noiseFloorDb + this.marginDb, ABSOLUTE_FLOOR_DB);
+    const speech = loud && this.soundsLikeSpeech(frame);
+
+    if (energyDb < this.noiseFloorDb) {
+      this.noiseFloorDb = 0.8 * this.noiseFloorDb + 0.2 * energyDb;
+    } else if (!speech) {
+      this.noiseFloorDb = 0.98 * this.noiseFloorDb + 0.02 * energyDb;
+    }
+    return speech;
+  }
+
+  private soundsLikeSpeech(frame: Int16Array) {
+    const power = this.spectrum.power(frame);
+
+    // Skip DC and the rumble below 80 Hz
+    const first = Math.max(1, Math.ceil(80 / this.binHz));
+    const [bandLow, bandHigh] = VOICE_BAND_HZ.map(hz => Math.round(hz / this.binHz));
+    let total = 0;
+    let inBand = 0;
+    let logSum = 0;
+    for (let i = first; i < power.length; i++) {
+      total += power[i];
+      if (i >= bandLow && i <= bandHigh) inBand += power[i];
+      logSum += Math.log(power[i] + 1e-12);
+    }
+    if (total === 0) return false;
+
+    const bins = power.length - first;
+    const flatness = Math.exp(logSum / bins) / (total / bins);
+    return flatness < MAX_FLATNESS && inBand / total > MIN_VOICE_BAND_RATIO;
+  }
+}
+
+/**
+ * Splits a live stream of samples into utterances: speech starts once enough
+ * of a short window is voiced, and ends after `silenceMs` without any.
+ */
+export class Endpointer {
+  private readonly classifier: FrameClassifier;
+  private readonly silenceFrames: number;
+  private readonly onsetWindowFrames = msToFrames(ONSET_WINDOW_MS);
+  private readonly onsetFrames = msToFrames(ONSET_MS);
+  private readonly padFrames = msToFrames(PAD_MS);
+  private pending = new Int16Array(0);
+  /** Frames before speech started, kept so the start of the first word isn't lost */
+  private recent: { frame: Int16Array; speech: boolean }[] = [];
+  private utterance: Int16Array[] | null = null;
+  private voicedFrames = 0;
+  private trailingSilence = 0;
+
+  constructor(options: VadOptions) {
+    this.classifier = new FrameClassifier(options);
+    this.silenceFrames = msToFrames(options.silenceMs ?? DEFAULT_SILENCE_MS);
+  }
+
+  /** True between speech_start and the utterance (or discard) that ends it */
+  get inSpeech() {
+    return this.utterance !== null;
+  }
+
+  push(samples: Int16Array): EndpointEvent[] {
+    const { frameLength } = this.classifier;
+    const buffer = concat([this.pending, samples]);
+    const events: EndpointEvent[] = [];
+    // Frames during speech are reported together, in order with the other events
+    let speech: Int16Array[] = [];
+    const flushSpeech = () => {
+      if (speech.length > 0) events.push({ type: "speech", samples: concat(speech) });
+      speech = [];
+    };
+
+    let offset = 0;
+    for (; offset + frameLength <= buffer.length; offset += frameLength) {
+      const frame = buffer.slice(offset, offset + frameLength);
+      const wasInSpeech = this.inSpeech;
+      const event = this.pushFrame(frame);
+      if (wasInSpeech) speech.push(frame);
+      if (event) {
+        flushSpeech();
+        events.push(event);
+      }
+    }
+    flushSpeech();
+    this.pending = buffer.slice(offset);
+    return events;
+  }
+
+  private pushFrame(frame: Int16Array): EndpointEvent | null {
+    const speech = this.classifier.isSpeech(frame);
+
+    if (!this.utterance) {
+      this.recent.push({ frame, speech });
+      if (this.recent.length > this.onsetWindowFrames + this.padFrames) this.recent.shift();
+
+      const voiced = this.recent.slice(-this.onsetWindowFrames).filter(entry => entry.speech).length;
+      if (voiced < this.onsetFrames) return null;
+
+      this.utterance = this.recent.map(entry => entry.frame);
+      this.voicedFrames = voiced;
+      this.trailingSilence = 0;
+      this.recent = [];
+      return { type: "speech_start", samples: concat(this.utterance) };
+    }
+
+    this.utterance.push(frame);
+    if (speech) {
+      this.voicedFrames++;
+      this.trailingSilence = 0;
+    } else {
+      this.trailingSilence++;
+    }
+
+    const tooLong = this.utterance.length * FRAME_MS >= MAX_UTTERANCE_MS;
+    if (this.trailingSilence < this.silenceFrames && !tooLong) return null;
+
+    const keep = this.utterance.length - this.trailingSilence + this.padFrames;
+    const samples = concat(this.utterance.slice(0, keep));
+    const enoughSpeech = this.voicedFrames * FRAME_MS >= MIN_SPEECH_MS;
+    this.utterance = null;
+    return enoughSpeech ? { type: "utterance", samples } : { type: "discarded" };
+  }
+}
+
+/**
+ * Cut a recorded clip down to its speech, keeping pauses in between.
+ * Returns null when there's no speech in it at all.
+ */
+export function trimSilence(samples: Int16Array, options: VadOptions): Int16Array | null {
+  const classifier = new FrameClassifier(options);
+  const { frameLength } = classifier;
+  const flags: boolean[] = [];
+  for (let offset = 0; offset + frameLength <= samples.length; offset += frameLength) {
+    flags.push(classifier.isSpeech(samples.subarray(offset, offset + frameLength)));
+  }
+
+  const voiced = flags.filter(Boolean).length;
+  if (voiced * FRAME_MS < MIN_SPEECH_MS) return null;
+
+  // Speech starts and ends where an onset window is mostly voiced, so stray clicks don't count
+  const windowFrames = msToFrames(ONSET_WINDOW_MS);
+  const onsetFrames = msToFrames(ONSET_MS);
+  let first = -1;
+  let last = -1;
+  let count = 0;
+  for (let i = 0; i < flags.length; i++) {
+    if (flags[i]) count++;
+    if (i >= windowFrames && flags[i - windowFrames]) count--;
+    if (count >= onsetFrames) {
+      if (first < 0) first = Math.max(0, i - windowFrames + 1);
+      last = i;
+    }
+  }
+  if (first < 0) return null;
+
+  const padFrames = msToFrames(PAD_MS);
+  const start = Math.max(0, first - padFrames) * frameLength;
+  const end = Math.min(flags.length, last + 1 + padFrames) * frameLength;
+  return samples.slice(start, end);
+}
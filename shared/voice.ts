@@ -0,0 +1,59 @@
+/**
+ * Voice call WebSocket protocol. Control messages are JSON text frames;
+ * microphone audio (client → server) and reply audio (server → client)
+ * are binary frames.
+ *
+ * The microphone is streamed continuously as 16-bit little-endian mono PCM at
+ * PCM_SAMPLE_RATE; the server decides where utterances start and end.
+ */
+
+export const VOICE_SOCKET_PATH = "/api/voice";
+
+export const PCM_SAMPLE_RATE = 16000;
+
+export type VoiceClientMessage =
+  | { type: "start"; conversationId: number }
+  /**
+   * The user started talking over the reply. `sentenceIndex` is the sentence
+   * that was playing (omitted if none had started), `playedMs` how much of its
+   * clip was heard and `durationMs` the clip's length.
+   */
+  | { type: "interrupt"; sentenceIndex?: number; playedMs: number; durationMs?: number }
+  | { type: "stop" };
+
+/** Messages about one utterance carry its turnId, so replies to an interrupted turn can be ignored */
+export type VoiceServerMessage =
+  | { type: "ready" }
+  /** The user started speaking; during a reply this is a barge-in */
+  | { type: "speech_start" }
+  /** The user stopped speaking and the utterance becomes this turn */
+  | { type: "speech_end"; turnId: number }
+  /** What sounded like speech wasn't, so nothing will be transcribed */
+  | { type: "speech_discarded" }
+  /** The words recognised so far in the current utterance, sent while the user speaks */
+  | { type: "partial_transcript"; text: string }
+  | { type: "transcript"; turnId: number; text: string }
+  | { type: "reply_delta"; turnId: number; content: string }
+  | { type: "reply_done"; turnId: number; messageId: number; content: string }
+  /** Audio for one sentence of the reply, sent in order; its clip follows as a single binary frame */
+  | { type: "sentence_audio"; turnId: number; index: number; text: string; mimeType: string }
+  /** No more sentence audio for this turn */
+  | { type: "audio_end"; turnId: number }
+  /** Nothing more will be sent for this utterance */
+  | { type: "turn_done"; turnId: number }
+  /** A budget covering a provider this turn uses is past 80% */
+  | { type: "budget_warning"; message: string }
+  | { type: "error"; message: string };
+
+/**
+ * Dictation (VOICE_SOCKET_PATH?mode=dictation) turns one recording into text
+ * without a conversation. The microphone streams as PCM until `finish`.
+ */
+export type DictationClientMessage = { type: "finish" };
+
+export type DictationServerMessage =
+  | { type: "partial_transcript"; text: string }
+  /** Empty when the recording had no speech in it */
+  | { type: "final_transcript"; text: string }
+  | { type: "budget_warning"; message: string }
+  | { type: "error"; message: string };
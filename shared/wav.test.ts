@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { FrameClassifier, trimSilence } from "./vad";
+import { decodeWav, encodeWav } from "./wav";
+
+describe("decodeWav", () => {
+  it("round-trips what encodeWav writes", () => {
+    const samples = Int16Array.from([0, 1000, -1000, 32767, -32768]);
+    const decoded = decodeWav(encodeWav(samples, 16000));
+    expect(decoded.sampleRate).toBe(16000);
+    expect(Array.from(decoded.samples)).toEqual(Array.from(samples));
+  });
+
+  it("rejects headers claiming a sample rate outside 8–48 kHz", () => {
+    // A rate this low once gave the VAD zero-length frames and an endless loop
+    expect(() => decodeWav(encodeWav(new Int16Array(100), 10))).toThrow(/sample rate/);
+    expect(() => decodeWav(encodeWav(new Int16Array(100), 0))).toThrow(/sample rate/);
+    expect(() => decodeWav(encodeWav(new Int16Array(100), 192000))).toThrow(/sample rate/);
+  });
+});
+
+describe("voice detection on low sample rates", () => {
+  it("refuses rates that would make empty frames", () => {
+    expect(() => new FrameClassifier({ sampleRate: 10 })).toThrow(/Sample rate/);
+    expect(() => trimSilence(new Int16Array(100), { sampleRate: 24 })).toThrow(/Sample rate/);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * 16-bit mono PCM WAV files, used for recorded speech on both sides so the
+ * server can inspect the samples without a codec
+ */
+
+const HEADER_BYTES = 44;
+/** Telephone quality up to studio quality; anything else is a malformed header */
+const MIN_SAMPLE_RATE = 8000;
+const MAX_SAMPLE_RATE = 48000;
+
+export function encodeWav(samples: Int16Array, sampleRate: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(HEADER_BYTES + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, bytes.length - 8, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeTag(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(HEADER_BYTES + i * 2, samples[i], true);
+  }
+  return bytes;
+}
+
+/** Read a 16-bit mono PCM WAV file; other formats are rejected */
+export function decodeWav(bytes: Uint8Array): { samples: Int16Array; sampleRate: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readTag = (offset: number) =>
+    String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+
+  if (bytes.length < 12 || readTag(0) !== "RIFF" || readTag(8) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const tag = readTag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === "fmt ") {
+      const format = view.getUint16(body, true);
+      const channels = view.getUint16(body + 2, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (format !== 1 || channels !== 1 || bitsPerSample !== 16) {
+        throw new Error("Only 16-bit mono PCM WAV is supported");
+      }
+      sampleRate = view.getUint32(body + 4, true);
+      if (sampleRate < MIN_SAMPLE_RATE || sampleRate > MAX_SAMPLE_RATE) {
+        throw new Error(`Unsupported WAV sample rate: ${sampleRate} Hz`);
+      }
+    } else if (tag === "data") {
+      if (!sampleRate) throw new Error("WAV data before format");
+      const length = Math.floor(Math.min(size, bytes.length - body) / 2);
+      const samples = new Int16Array(length);
+      for (let i = 0; i < length; i++) samples[i] = view.getInt16(body + i * 2, true);
+      return { samples, sampleRate };
+    }
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+  throw new Error("WAV file has no audio data");
+}